@@ -1,20 +1,31 @@
 const express = require('express');
 const cors = require('cors');
-const { bundle } = require('@remotion/bundler');
-const { renderMedia, selectComposition } = require('@remotion/renderer');
+const { renderMedia, selectComposition, makeCancelSignal } = require('@remotion/renderer');
 const path = require('path');
 const fs = require('fs');
-const { createClient: createSupabaseClient } = require('@supabase/supabase-js');
 const crypto = require('crypto');
-const { createClient: createDeepgramClient } = require('@deepgram/sdk');
-const { pipeline } = require('stream/promises');
+const { buildManifestFromAnalysis } = require('./server/manifestBuilder');
+const { validateManifest, VALIDATION_MODES } = require('./server/manifestValidator');
+const { createJobQueue, JobCancelledError, QueueFullError, TERMINAL_EVENTS } = require('./server/jobQueue');
+const { checkTtsConfig, resolveTtsSettings, hasLocaleVoice } = require('./server/tts');
+const { localeLanguage } = require('./server/locale');
+const { synthesizeCached, releaseNarration, pruneNarrationCache, publishNarration, pruneNarrationBucket } = require('./server/ttsCache');
+const { probeAudioDuration, fitSceneDurations, totalFrames } = require('./server/sceneTiming');
+const { alignNarration } = require('./server/captions');
+const { buildSidecars } = require('./server/subtitles');
+const { resolveBranding } = require('./server/branding');
+const { planPreviews, renderPreviews } = require('./server/previews');
+const { planSegments, renderSegments, releaseSegments, assembleSegments, pruneSegmentCache } = require('./server/segments');
+const { WORKER_COUNT } = require('./server/renderWorkers');
+const { resolveOutputs, planOutputs, outputSize, renderOptions, transcodeOutput, outputFile } = require('./server/outputProfiles');
+const { createIssue } = require('./server/issues');
+const { createStores } = require('./server/storage');
+const { resolveWebhookTargets, notifyWebhooks } = require('./server/webhooks');
+const { createBundleCache } = require('./server/bundleCache');
+const { requireAdmin } = require('./server/adminAuth');
+const { renderHash, scopedIdempotencyKey, aliasVideoId, createRenderIndex } = require('./server/renderDedup');
 require('dotenv').config();
 
-const deepgram = createDeepgramClient(process.env.DEEPGRAM_API_KEY);
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_DEFAULT_KEY || process.env.SUPABASE_KEY;
-const supabase = createSupabaseClient(supabaseUrl, supabaseKey);
-
 const app = express();
 app.use(cors());
 app.use(express.json({ limit: '50mb' }));
@@ -25,15 +36,30 @@ app.get('/', (req, res) => {
     res.send('Video Generator Service is running');
 });
 
-if (!supabaseUrl || !supabaseKey) {
-    console.error('Missing Supabase environment variables');
-    process.exit(1);
-}
-
 const PORT = process.env.PORT || 3001;
 console.log(`📡 Cloud Run Port Detected: ${process.env.PORT}`);
 console.log(`🚀 Starting on Port: ${PORT}`);
 
+// Use Render's public URL as fallback, otherwise localhost
+const publicHost = process.env.RENDER_EXTERNAL_URL || `http://localhost:${PORT}`;
+
+// Rendered files and `videos` rows; Supabase when configured, local files otherwise
+let artifactStore;
+let statusStore;
+try {
+    ({ artifactStore, statusStore } = createStores({ publicBaseUrl: publicHost }));
+} catch (err) {
+    console.error(`Storage configuration error: ${err.message}`);
+    process.exit(1);
+}
+console.log(`🗄️ Artifact store: ${artifactStore.name}, status store: ${statusStore.name}`);
+
+const ttsConfigError = checkTtsConfig();
+if (ttsConfigError) {
+    console.error(`TTS configuration error: ${ttsConfigError}`);
+    process.exit(1);
+}
+
 // Ensure output directories exist
 const outputDir = path.join(__dirname, 'public', 'videos');
 const audioDir = path.join(__dirname, 'public', 'audio');
@@ -44,281 +70,471 @@ const audioDir = path.join(__dirname, 'public', 'audio');
     }
 });
 
-// Transform AI manifest format to Remotion expected format
-function transformManifest(aiManifest) {
-    if (!aiManifest) return null;
+// One Remotion bundle shared by all renders, rebuilt when remotion/ changes
+const bundleCache = createBundleCache({
+    entryPoint: path.resolve(__dirname, 'remotion', 'index.tsx'),
+    sourceDir: path.resolve(__dirname, 'remotion')
+});
 
-    const scenes = aiManifest.scenes || [];
+// Validate the request body and resolve the manifest to render.
+// Returns either { status, body } describing the rejection, or the render payload.
+function prepareRenderRequest(body) {
+    const {
+        manifest, analysis, manifest_id, validation_mode, branding: requestBranding, branding_id, resolution,
+        outputs: requestedOutputs, callback_url, tenant_id
+    } = body || {};
 
-    return {
-        meta: aiManifest.meta || {
-            loan_id: 'unknown',
-            version: '1.0',
-            theme: 'institutional-dark',
-            resolution: '1920x1080',
-            fps: 30
-        },
-        scenes: scenes.map((scene, idx) => {
-            const rawComponents = scene.components || scene.visuals?.components || [];
-
-            const transformedComponents = rawComponents.map(component => {
-                // Ensure rationale is a string
-                if (component.type === 'recommendation' && Array.isArray(component.rationale)) {
-                    return { ...component, rationale: component.rationale.join('. ') };
-                }
-                return component;
-            });
+    if (!manifest && !analysis) {
+        return { status: 400, body: { error: 'Missing manifest or analysis' } };
+    }
 
-            return {
-                id: scene.id || `scene_${idx}`,
-                start: scene.start || scene.start_time || 0,
-                duration: scene.duration || 10,
-                narration: {
-                    text: typeof scene.narration === 'string'
-                        ? scene.narration
-                        : scene.narration?.text || '',
-                    audioUrl: typeof scene.narration === 'object' ? scene.narration.audioUrl : null
-                },
-                visuals: {
-                    layout: scene.visuals?.layout || 'centered',
-                    components: transformedComponents
-                }
-            };
-        })
+    const validationMode = validation_mode || process.env.MANIFEST_VALIDATION_MODE || 'lenient';
+    if (!VALIDATION_MODES.includes(validationMode)) {
+        return { status: 400, body: { error: `validation_mode must be one of: ${VALIDATION_MODES.join(', ')}` } };
+    }
+
+    const { outputs, error: outputsError } = resolveOutputs(requestedOutputs);
+    if (outputsError) {
+        return { status: 400, body: { error: outputsError } };
+    }
+
+    const { targets: webhooks, error: webhookError } = resolveWebhookTargets({ callback_url, tenant_id });
+    if (webhookError) {
+        return { status: 400, body: { error: webhookError } };
+    }
+
+    // Fall back to the built-in storyboard when the upstream AI step produced no manifest
+    const manifestSource = manifest ? 'request' : 'builtin';
+    let candidate = manifest || buildManifestFromAnalysis(analysis, { loanId: manifest_id });
+    // Lets the app render the same storyboard in another format, e.g. 9:16 for mobile
+    if (resolution && candidate?.meta) {
+        candidate = { ...candidate, meta: { ...candidate.meta, resolution } };
+    }
+    const { manifest: validatedManifest, errors, warnings, provenance } = validateManifest(candidate, { mode: validationMode, analysis });
+    if (errors.length > 0) {
+        console.log(`🚫 Manifest rejected (${validationMode}): ${errors.length} error(s)`);
+        return { status: 422, body: { error: 'Invalid manifest', validationMode, errors, warnings } };
+    }
+
+    const branding = resolveBranding({ branding: requestBranding, branding_id }, { mode: validationMode });
+    if (branding.errors.length > 0) {
+        return { status: 422, body: { error: 'Invalid branding', validationMode, errors: branding.errors, warnings: branding.warnings } };
+    }
+    warnings.push(...branding.warnings);
+    warnings.forEach(w => console.log(`⚠️ Manifest warning: ${w.message}`));
+    const fromAnalysis = provenance.filter(entry => entry.source === 'analysis' || entry.source === 'template').length;
+    console.log(`🔗 ${fromAnalysis} of ${provenance.length} manifest values read from the analysis`);
+
+    // The pipeline fills in narration and durations on the manifest as it goes; the request as
+    // validated is kept so single scenes can be patched and rendered again later
+    const request = structuredClone({ manifest: validatedManifest, analysis, branding: branding.branding, manifest_id, outputs });
+
+    return {
+        payload: { manifest: validatedManifest, analysis, branding: branding.branding, manifest_id, manifestSource, outputs, webhooks, warnings, provenance, request }
     };
 }
 
-app.post('/generate-video', async (req, res) => {
-    const { manifest, analysis, manifest_id } = req.body;
-
-    if (!manifest) {
-        return res.status(400).json({ error: 'Missing manifest' });
+// Status updates are best effort; a failed write must not fail the render
+async function updateVideoRow(videoId, fields) {
+    try {
+        await statusStore.update(videoId, fields);
+    } catch (err) {
+        console.error(`⚠️ [${videoId}] Status update failed:`, err);
     }
+}
 
-    const transformedManifest = transformManifest(manifest);
-    if (!transformedManifest || transformedManifest.scenes.length === 0) {
-        return res.status(400).json({ error: 'Invalid or empty manifest' });
+// Uploads a rendered artifact to the public `videos` bucket; resolves with its URL, or null on failure
+async function uploadToVideosBucket(videoId, fileName, body, contentType) {
+    try {
+        return await artifactStore.upload('videos', fileName, body, { contentType });
+    } catch (err) {
+        console.error(`⚠️ [${videoId}] Upload failed for ${fileName}:`, err);
+        return null;
     }
+}
 
-    const videoId = crypto.randomUUID();
-    const outputLocation = path.join(outputDir, `${videoId}.mp4`);
+// Keeps the in-memory job (and its event stream) and the status row in step.
+// `stage` is the pipeline step; omit it for progress within the current step.
+async function reportProgress(job, progress, label, stage) {
+    job.setProgress(progress, label, stage);
+    await updateVideoRow(job.id, { progress, progress_label: label });
+}
+
+// Adds warnings to the job result and streams them as they are raised
+function reportWarnings(job, warnings, raised) {
+    warnings.push(...raised);
+    raised.forEach(warning => job.emit('warning', warning));
+}
 
-    console.log(`🎬 [${videoId}] Render requested for manifest_id: ${manifest_id}`);
+// Render progress is streamed more often than it is written to the status store
+const RENDER_EVENT_INTERVAL_MS = 250;
+
+// Scenes are rendered as cached segments unless RENDER_SEGMENTS=false, which renders the
+// master in one pass (and does not need ffmpeg for it)
+const SEGMENTED_RENDERING = process.env.RENDER_SEGMENTS !== 'false';
+
+// Full bundle -> narration -> render -> upload pipeline for one job.
+// Resolves with the response body; throws JobCancelledError when the job is cancelled.
+async function renderVideo(job) {
+    const {
+        manifest: transformedManifest, analysis, branding, manifestSource, outputs, warnings, provenance, renderHash: hash,
+        request, version = 1, previousVersion = null
+    } = job.payload;
+    const videoId = job.id;
+    const outputPlan = planOutputs(outputs);
+    // The primary output keeps the `<videoId>.<ext>` name; the other profiles add theirs
+    const primaryOutput = outputPlan.master || 'audio-only';
+    const outputFiles = Object.fromEntries(outputs.map(name => {
+        const { extension, contentType } = outputFile(name);
+        const fileName = name === primaryOutput ? `${videoId}.${extension}` : `${videoId}.${name}.${extension}`;
+        return [name, { fileName, contentType, location: path.join(outputDir, fileName) }];
+    }));
+    const previewDir = path.join(outputDir, `${videoId}-previews`);
 
-    // Start render and wait for it to finish (required for Cloud Run to keep CPU active)
     let audioFiles = [];
-    let supabaseAudioPaths = [];
+    // Cached clips and segments this job holds; they are shared, so never deleted per job
+    let narrationKeys = [];
+    let segmentKeys = [];
+    // The bundle this job renders from, held so a rebuild cannot delete it mid-render
+    let bundled = null;
     const BUCKET_NAME = 'narration-audio';
 
     try {
         console.log(`🎬 [${videoId}] Render starting...`);
 
-        // Ensure bucket exists (best effort, requires service role key privileges)
-        try {
-            const { data: buckets } = await supabase.storage.listBuckets();
-            if (!buckets?.find(b => b.name === BUCKET_NAME)) {
-                await supabase.storage.createBucket(BUCKET_NAME, { public: true });
-                console.log(`📦 Created Supabase bucket: ${BUCKET_NAME}`);
-            }
-        } catch (err) {
-            console.log(`⚠️ Bucket check/creation skipped: ${err.message}`);
-        }
+        // Ensure bucket exists (best effort)
+        await artifactStore.ensureBucket(BUCKET_NAME);
 
-        const fps = transformedManifest.meta.fps || 30;
-        const totalDurationInSeconds = transformedManifest.scenes.reduce((acc, s) => acc + s.duration, 0);
-        const durationInFrames = Math.max(1, Math.floor(totalDurationInSeconds * fps));
+        // Validation warnings were raised before the job existed
+        warnings.forEach(warning => job.emit('warning', warning));
 
-        console.log(`🎬 [${videoId}] Planning render: ${durationInFrames} frames (${totalDurationInSeconds}s) at ${fps}fps`);
+        await reportProgress(job, 5, 'Bundling project', 'bundling');
+        job.throwIfCancelled();
 
-        // Update status in DB
-        if (manifest_id) {
-            await supabase
-                .from('videos')
-                .upsert([{
-                    id: videoId,
-                    manifest_id: manifest_id,
-                    status: 'processing',
-                    progress: 5,
-                    progress_label: 'Bundling project'
-                }]);
-        }
-
-        const inputPath = path.resolve(__dirname, 'remotion', 'index.tsx');
-        const bundled = await bundle(inputPath);
+        bundled = await bundleCache.acquire();
 
         // Step: Generate Narration Audio for each scene if missing
-        console.log(`🔊 [${videoId}] Generating narration audio and uploading to Supabase...`);
+        console.log(`🔊 [${videoId}] Generating narration audio and uploading to ${artifactStore.name}...`);
+
+        const { locale } = transformedManifest.meta;
+        const narrationLanguage = locale ? localeLanguage(locale) : null;
+        // Warned once: a voice for another language reads the narration with the wrong accent
+        let localeVoiceWarned = false;
 
         const totalScenes = transformedManifest.scenes.length;
+        const audioSources = new Array(totalScenes).fill(null);
         for (let i = 0; i < totalScenes; i++) {
+            job.throwIfCancelled();
             const scene = transformedManifest.scenes[i];
 
             // Update progress for audio generation (5-30% range)
             const audioProgress = Math.round((i / totalScenes) * 25) + 5;
-            await supabase
-                .from('videos')
-                .update({
-                    progress: audioProgress,
-                    progress_label: `Generating Audio (${i + 1}/${totalScenes})`
-                })
-                .eq('id', videoId);
+            await reportProgress(job, audioProgress, `Generating Audio (${i + 1}/${totalScenes})`, 'narration');
             if (scene.narration && scene.narration.text && !scene.narration.audioUrl) {
                 try {
                     console.log(`  - Generating audio for scene ${i}: "${scene.narration.text.substring(0, 30)}..."`);
-                    const audioFileName = `${videoId}_scene_${i}.mp3`;
-                    const audioPath = path.join(audioDir, audioFileName);
-
-                    const response = await deepgram.speak.request(
-                        { text: scene.narration.text },
-                        { model: 'aura-2-odysseus-en' }
-                    );
-
-                    const stream = await response.getStream();
-                    if (stream) {
-                        const file = fs.createWriteStream(audioPath);
-                        await pipeline(stream, file);
-
-                        // Upload to Supabase Storage
-                        const audioBuffer = fs.readFileSync(audioPath);
-                        const { error: uploadError } = await supabase.storage
-                            .from(BUCKET_NAME)
-                            .upload(audioFileName, audioBuffer, {
-                                contentType: 'audio/mpeg',
-                                upsert: true
-                            });
-
-                        if (uploadError) throw uploadError;
-
-                        // Get public URL
-                        const { data: urlData } = supabase.storage
-                            .from(BUCKET_NAME)
-                            .getPublicUrl(audioFileName);
-
-                        scene.narration.audioUrl = urlData.publicUrl;
+                    const tts = resolveTtsSettings(transformedManifest.meta, scene);
+                    const voiceChosen = transformedManifest.meta.tts?.voice || scene.narration.tts?.voice;
+                    if (locale && !voiceChosen && !localeVoiceWarned && !hasLocaleVoice(tts.provider, locale)) {
+                        localeVoiceWarned = true;
+                        reportWarnings(job, warnings, [
+                            createIssue(['meta', 'locale'], `has no ${tts.provider} voice; narration uses ${tts.voice}`)
+                        ]);
+                    }
+                    const { audio, key: narrationKey, hit } = await synthesizeCached(scene.narration.text, tts);
+                    if (audio) {
+                        narrationKeys.push(narrationKey);
+                        const audioFileName = `${videoId}_scene_${i}.${audio.extension}`;
+                        const audioPath = path.join(audioDir, audioFileName);
+                        fs.writeFileSync(audioPath, audio.data);
                         audioFiles.push(audioPath);
-                        supabaseAudioPaths.push(audioFileName);
 
-                        console.log(`    ✅ Audio ready & uploaded: ${urlData.publicUrl}`);
+                        // Published so the renderer can fetch it by public URL; stored by content hash,
+                        // so a clip already in the bucket is not uploaded again
+                        const { url: audioUrl, uploaded } = await publishNarration(artifactStore, BUCKET_NAME, narrationKey, audio);
+
+                        scene.narration.audioUrl = audioUrl;
+                        audioSources[i] = audioPath;
+
+                        // Word timings for animated captions (provider-supplied or whisper.cpp)
+                        if (transformedManifest.meta.captions?.enabled !== false) {
+                            const captions = await alignNarration(audioPath, audio, { signal: job.signal, language: narrationLanguage });
+                            if (captions) scene.narration.captions = captions;
+                        }
+                        console.log(`    ✅ Audio ${hit ? 'reused from cache' : 'ready'} & ${uploaded ? 'uploaded' : 'already in the bucket'} (${tts.provider}/${tts.voice}): ${audioUrl}`);
+                        job.emit('tts', { scene: scene.id, index: i, total: totalScenes, provider: tts.provider, voice: tts.voice, cached: hit, url: audioUrl });
                     }
                 } catch (audioErr) {
                     console.error(`    ❌ Failed to generate/upload audio for scene ${i}:`, audioErr);
+                    job.emit('tts', { scene: scene.id, index: i, total: totalScenes, error: audioErr.message });
+                    reportWarnings(job, warnings, [
+                        createIssue(['scenes', i, 'narration'], `could not be synthesised (${audioErr.message}); the scene has no narration`)
+                    ]);
                 }
+            } else if (scene.narration?.audioUrl) {
+                audioSources[i] = scene.narration.audioUrl;
             }
         }
 
+        job.throwIfCancelled();
+
+        // Step: Fit scene durations to the narration that was actually produced
+        const audioDurations = await Promise.all(
+            audioSources.map(source => (source ? probeAudioDuration(source) : null))
+        );
+        const timingWarnings = fitSceneDurations(transformedManifest, audioDurations);
+        timingWarnings.forEach(w => console.log(`⚠️ [${videoId}] ${w.message}`));
+        reportWarnings(job, warnings, timingWarnings);
+
+        const fps = transformedManifest.meta.fps || 30;
+        const durationInFrames = totalFrames(transformedManifest.scenes, fps);
+        const totalDurationInSeconds = durationInFrames / fps;
+
+        console.log(`🎬 [${videoId}] Planning render: ${durationInFrames} frames (${totalDurationInSeconds}s) at ${fps}fps`);
+
         const compositionId = 'LoanBriefing';
         const composition = await selectComposition({
             serveUrl: bundled,
             id: compositionId,
-            inputProps: { manifest: transformedManifest, analysis },
+            inputProps: { manifest: transformedManifest, analysis, branding },
         });
 
         composition.durationInFrames = durationInFrames;
+        console.log(`📐 [${videoId}] Output size: ${composition.width}x${composition.height} (${transformedManifest.meta.resolution})`);
 
-        console.log(`🚀 [${videoId}] Calling renderMedia...`);
+        console.log(`🚀 [${videoId}] Calling renderMedia for ${outputs.join(', ')}...`);
 
         // Limit concurrency based on environment (Free tier = 1)
         const concurrency = process.env.REMOTION_CONCURRENCY ? parseInt(process.env.REMOTION_CONCURRENCY) : 4;
-        console.log(`⚙️ [${videoId}] Concurrency set to: ${concurrency}`);
+        console.log(`⚙️ [${videoId}] Concurrency set to: ${concurrency}${SEGMENTED_RENDERING ? ` per worker, ${WORKER_COUNT} worker(s)` : ''}`);
+
+        // Abort an in-flight render when the job is cancelled
+        const { cancelSignal, cancel: cancelRender } = makeCancelSignal();
+        job.signal.addEventListener('abort', cancelRender, { once: true });
+
+        const chromiumOptions = {
+            args: ['--no-sandbox', '--disable-setuid-sandbox']
+        };
 
         let lastUpdate = Date.now();
-        await renderMedia({
-            composition,
-            serveUrl: bundled,
-            codec: 'h264',
-            outputLocation,
-            inputProps: { manifest: transformedManifest, analysis },
-            concurrency,
-            chromiumOptions: {
-                args: ['--no-sandbox', '--disable-setuid-sandbox']
-            },
-            onProgress: async ({ progress }) => {
-                // Update every 1000ms to avoid spamming Supabase
-                if (Date.now() - lastUpdate > 1000) {
-                    const totalProgress = 30 + Math.round(progress * 60); // 30-90% range
-                    await supabase
-                        .from('videos')
-                        .update({
-                            progress: totalProgress,
-                            progress_label: `Rendering (${Math.round(progress * 100)}%)`
-                        })
-                        .eq('id', videoId);
-                    lastUpdate = Date.now();
-                }
+        let lastRenderEvent = 0;
+        // `totalFrames` is the number of frames being rendered, i.e. excluding cached segments
+        const onRenderProgress = async ({ progress, renderedFrames, encodedFrames, totalFrames: framesToRender, etaSeconds }) => {
+            if (Date.now() - lastRenderEvent > RENDER_EVENT_INTERVAL_MS || progress === 1) {
+                lastRenderEvent = Date.now();
+                job.emit('render', { progress, renderedFrames, encodedFrames, totalFrames: framesToRender, etaSeconds });
             }
-        });
+            // Update every 1000ms to avoid spamming the status store
+            if (Date.now() - lastUpdate > 1000) {
+                const totalProgress = 30 + Math.round(progress * 55); // 30-85% range
+                lastUpdate = Date.now();
+                await reportProgress(job, totalProgress, `Rendering (${Math.round(progress * 100)}%)`);
+            }
+        };
 
-        console.log(`✅ [${videoId}] Render complete! Uploading video...`);
-        await supabase
-            .from('videos')
-            .update({ progress: 95, progress_label: 'Uploading to storage' })
-            .eq('id', videoId);
-
-        // Upload Video to Supabase
-        // Use stream to avoid OOM on large files
-        const videoFile = fs.createReadStream(outputLocation);
-        const fileName = `${videoId}.mp4`;
-
-        // Use Render's public URL as fallback, otherwise localhost
-        const publicHost = process.env.RENDER_EXTERNAL_URL || `http://localhost:${PORT}`;
-        console.log(`🌐 [${videoId}] Configured Public Host: ${publicHost}`);
+        let previewFiles = null;
+        let segmentCounts = null;
+        try {
+            // Frames are rendered once, into the master profile
+            if (outputPlan.master && SEGMENTED_RENDERING) {
+                await reportProgress(job, 30, 'Rendering (0%)', 'rendering');
+                const segmentPlan = planSegments(transformedManifest, {
+                    analysis,
+                    branding,
+                    profile: outputPlan.master,
+                    templateHash: bundleCache.sourceHash()
+                });
+                segmentKeys = segmentPlan.map(segment => segment.key);
+                segmentCounts = await renderSegments(segmentPlan, {
+                    composition,
+                    serveUrl: bundled,
+                    inputProps: { manifest: transformedManifest, analysis, branding },
+                    profile: outputPlan.master,
+                    concurrency,
+                    chromiumOptions,
+                    signal: job.signal,
+                    onProgress: onRenderProgress
+                });
+                console.log(`🧩 [${videoId}] Scene segments: ${segmentCounts.rendered} rendered, ${segmentCounts.reused} reused`);
+                job.emit('segments', segmentCounts);
+                job.throwIfCancelled();
+
+                await reportProgress(job, 85, 'Assembling scenes', 'encoding');
+                await assembleSegments(segmentPlan, {
+                    audioSources,
+                    fps,
+                    profile: outputPlan.master,
+                    outputPath: outputFiles[outputPlan.master].location,
+                    signal: job.signal
+                });
+            } else if (outputPlan.master) {
+                await reportProgress(job, 30, 'Rendering (0%)', 'rendering');
+                await renderMedia({
+                    composition,
+                    serveUrl: bundled,
+                    ...renderOptions(outputPlan.master, composition),
+                    outputLocation: outputFiles[outputPlan.master].location,
+                    inputProps: { manifest: transformedManifest, analysis, branding },
+                    concurrency,
+                    cancelSignal,
+                    chromiumOptions,
+                    onProgress: ({ progress, renderedFrames, encodedFrames, renderEstimatedTime }) => onRenderProgress({
+                        progress,
+                        renderedFrames,
+                        encodedFrames,
+                        totalFrames: durationInFrames,
+                        etaSeconds: renderEstimatedTime ? Math.round(renderEstimatedTime / 1000) : null
+                    })
+                });
+            }
+            job.throwIfCancelled();
 
-        let videoUrl = `${publicHost}/videos/${videoId}.mp4`;
-        console.log(`📡 [${videoId}] Initial Video URL Assumption: ${videoUrl}`);
+            // Other video profiles are transcoded from the master rather than rendered again
+            for (const name of outputPlan.derived) {
+                await reportProgress(job, 85, `Encoding ${name}`, 'encoding');
+                await transcodeOutput(name, outputFiles[outputPlan.master].location, outputFiles[name].location, composition, job.signal);
+            }
 
-        try {
-            const { error: uploadError } = await supabase.storage
-                .from('videos')
-                .upload(fileName, videoFile, {
-                    contentType: 'video/mp4',
-                    upsert: true,
-                    duplex: 'half'
+            // Audio codecs only mix the narration; no frames are rendered
+            if (outputPlan.audio) {
+                await reportProgress(job, 88, 'Mixing narration audio', 'encoding');
+                await renderMedia({
+                    composition,
+                    serveUrl: bundled,
+                    ...renderOptions('audio-only', composition),
+                    outputLocation: outputFiles['audio-only'].location,
+                    inputProps: { manifest: transformedManifest, analysis, branding },
+                    cancelSignal,
+                    chromiumOptions
                 });
+            }
+            job.throwIfCancelled();
 
-            if (uploadError) {
-                console.error(`⚠️ [${videoId}] Upload error:`, uploadError);
-            } else {
-                const { data: urlData } = supabase.storage.from('videos').getPublicUrl(fileName);
-                videoUrl = urlData.publicUrl;
+            // Step: Poster, thumbnails and animated preview; the video is still delivered if these fail
+            await reportProgress(job, 90, 'Rendering poster and thumbnails', 'previews');
+            const { plan: previewPlan, warnings: previewWarnings } = planPreviews(transformedManifest);
+            reportWarnings(job, warnings, previewWarnings);
+            try {
+                previewFiles = await renderPreviews(previewPlan, {
+                    composition,
+                    serveUrl: bundled,
+                    inputProps: { manifest: transformedManifest, analysis, branding },
+                    chromiumOptions,
+                    cancelSignal,
+                    outputDir: previewDir
+                });
+            } catch (previewErr) {
+                if (job.signal.aborted) throw previewErr;
+                console.error(`⚠️ [${videoId}] Preview rendering failed:`, previewErr);
+                reportWarnings(job, warnings, [createIssue(['meta', 'previews'], `could not be rendered: ${previewErr.message}`)]);
+            }
+        } finally {
+            job.signal.removeEventListener('abort', cancelRender);
+        }
+        job.throwIfCancelled();
+
+        console.log(`✅ [${videoId}] Render complete! Uploading video...`);
+        await reportProgress(job, 95, 'Uploading to storage', 'uploading');
+
+        console.log(`🌐 [${videoId}] Configured Public Host: ${publicHost}`);
+
+        // Upload every output to the artifact store; the primary one becomes the row's video_url
+        const outputUrls = {};
+        for (const name of outputs) {
+            const { fileName, contentType, location } = outputFiles[name];
+            // Use stream to avoid OOM on large files
+            const uploadedUrl = await uploadToVideosBucket(videoId, fileName, fs.createReadStream(location), contentType);
+            if (!uploadedUrl) {
+                console.error(`⚠️ [${videoId}] Using local URL for ${name} output`);
+            }
+            const { width, height } = outputSize(name, composition);
+            outputUrls[name] = {
+                url: uploadedUrl || `${publicHost}/videos/${fileName}`,
+                contentType,
+                ...(name === 'audio-only' ? {} : { width, height })
+            };
+        }
+        const videoUrl = outputUrls[primaryOutput].url;
+        console.log(`📡 [${videoId}] Primary output (${primaryOutput}): ${videoUrl}`);
+
+        // Closed captions and transcripts, timed against the final scene durations
+        const sidecarUrls = {};
+        for (const [name, sidecar] of Object.entries(buildSidecars(transformedManifest, audioDurations))) {
+            sidecarUrls[name] = await uploadToVideosBucket(
+                videoId,
+                `${videoId}.${sidecar.extension}`,
+                Buffer.from(sidecar.body, 'utf8'),
+                sidecar.contentType
+            );
+        }
+
+        // Poster, per-scene thumbnails and the animated preview, stored next to the video
+        const previewUrls = { poster: null, thumbnails: [], animated: null };
+        if (previewFiles) {
+            const uploadPreview = (file, name) =>
+                uploadToVideosBucket(videoId, `${videoId}.${name}.${file.extension}`, fs.readFileSync(file.path), file.contentType);
+            previewUrls.poster = await uploadPreview(previewFiles.poster, 'poster');
+            for (const [i, thumbnail] of previewFiles.thumbnails.entries()) {
+                previewUrls.thumbnails.push({ scene: thumbnail.sceneId, url: await uploadPreview(thumbnail, `thumb-${i}`) });
+            }
+            if (previewFiles.animated) {
+                previewUrls.animated = await uploadPreview(previewFiles.animated, 'preview');
             }
-        } catch (err) {
-            console.error(`⚠️ [${videoId}] Upload failed, using local URL:`, err);
         }
 
         // Update DB with success
-        await supabase
-            .from('videos')
-            .update({
-                video_url: videoUrl,
-                status: 'completed',
-                progress: 100,
-                progress_label: 'Finished',
-                isReady: true,
-                storage_metadata: { duration: totalDurationInSeconds, frames: durationInFrames }
-            })
-            .eq('id', videoId);
+        await updateVideoRow(videoId, {
+            video_url: videoUrl,
+            status: 'completed',
+            progress: 100,
+            progress_label: 'Finished',
+            isReady: true,
+            storage_metadata: {
+                duration: totalDurationInSeconds,
+                frames: durationInFrames,
+                width: composition.width,
+                height: composition.height,
+                scenes: transformedManifest.scenes.map(({ id, start, duration }) => ({ id, start, duration })),
+                outputs: outputUrls,
+                sidecars: sidecarUrls,
+                previews: previewUrls,
+                provenance,
+                render_hash: hash,
+                segments: segmentCounts,
+                version,
+                previous_version: previousVersion,
+                request
+            }
+        });
 
         console.log(`✨ [${videoId}] Process finished successfully: ${videoUrl}`);
 
-        // Return success response to the client
-        return res.json({ videoId, videoUrl, status: 'completed' });
+        return {
+            videoId, videoUrl, duration: totalDurationInSeconds, outputs: outputUrls, sidecars: sidecarUrls, previews: previewUrls,
+            version, previousVersion, status: 'completed', manifestSource, warnings, provenance
+        };
 
     } catch (error) {
-        console.error(`💥 [${videoId}] Render failed:`, error);
-        await supabase
-            .from('videos')
-            .update({ status: 'failed' })
-            .eq('id', videoId);
+        if (job.signal.aborted) {
+            console.log(`🛑 [${videoId}] Render cancelled`);
+            await updateVideoRow(videoId, { status: 'cancelled', progress_label: 'Cancelled' });
+            throw new JobCancelledError(videoId);
+        }
 
-        return res.status(500).json({ error: error.message });
+        console.error(`💥 [${videoId}] Render failed:`, error);
+        await updateVideoRow(videoId, { status: 'failed' });
+        throw error;
 
     } finally {
         // Cleanup local and cloud files
         console.log(`🧹 [${videoId}] Starting cleanup...`);
 
-        if (fs.existsSync(outputLocation)) {
-            try { fs.unlinkSync(outputLocation); } catch (err) { }
+        for (const { location } of Object.values(outputFiles)) {
+            if (fs.existsSync(location)) {
+                try { fs.unlinkSync(location); } catch (err) { }
+            }
         }
+        try { fs.rmSync(previewDir, { recursive: true, force: true }); } catch (err) { }
 
         for (const localPath of audioFiles) {
             if (fs.existsSync(localPath)) {
@@ -326,18 +542,412 @@ app.post('/generate-video', async (req, res) => {
             }
         }
 
-        if (supabaseAudioPaths.length > 0) {
+        releaseNarration(narrationKeys);
+        try {
+            await pruneNarrationCache(fileName => artifactStore.remove(BUCKET_NAME, [fileName]));
+        } catch (err) {
+            console.error(`⚠️ [${videoId}] Narration cache pruning failed:`, err);
+        }
+        try {
+            const removed = await pruneNarrationBucket(artifactStore, BUCKET_NAME);
+            if (removed > 0) console.log(`🧹 [${videoId}] Removed ${removed} expired clips from ${BUCKET_NAME}`);
+        } catch (err) {
+            console.error(`⚠️ [${videoId}] Narration bucket pruning failed:`, err);
+        }
+
+        releaseSegments(segmentKeys);
+        try {
+            pruneSegmentCache();
+        } catch (err) {
+            console.error(`⚠️ [${videoId}] Segment cache pruning failed:`, err);
+        }
+
+        if (bundled) {
             try {
-                await supabase.storage.from(BUCKET_NAME).remove(supabaseAudioPaths);
-            } catch (err) { }
+                bundleCache.release(bundled);
+            } catch (err) {
+                console.error(`⚠️ [${videoId}] Bundle cleanup failed:`, err);
+            }
+        }
+    }
+}
+
+// Positive whole-number settings; an unset or invalid value falls back to the default
+function envInteger(name, fallback) {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return fallback;
+    const value = Number(raw);
+    if (Number.isInteger(value) && value > 0) return value;
+    console.warn(`⚠️ ${name}="${raw}" is not a positive integer; using ${fallback}`);
+    return fallback;
+}
+
+const renderQueue = createJobQueue({
+    concurrency: envInteger('RENDER_JOB_CONCURRENCY', 1),
+    maxQueued: envInteger('RENDER_QUEUE_LIMIT', 20),
+    run: renderVideo
+});
+
+// Identical requests within this window reuse the first render; older ones are found in the status store
+const renderIndex = createRenderIndex({ ttlMs: parseInt(process.env.RENDER_DEDUP_TTL_MS || String(24 * 60 * 60 * 1000)) });
+
+// The render result for a completed videos row
+function resultFromRow(row) {
+    const metadata = row.storage_metadata || {};
+    return {
+        videoId: row.id,
+        videoUrl: row.video_url,
+        duration: metadata.duration ?? null,
+        outputs: metadata.outputs ?? null,
+        sidecars: metadata.sidecars ?? null,
+        previews: metadata.previews ?? null,
+        version: metadata.version ?? 1,
+        previousVersion: metadata.previous_version ?? null,
+        status: 'completed',
+        warnings: [],
+        provenance: metadata.provenance ?? []
+    };
+}
+
+// A queued, running or completed job to reuse; failed and cancelled renders are not reused
+function reusableJob(job) {
+    return job && !['failed', 'cancelled'].includes(job.state) ? job : null;
+}
+
+// Finds an earlier render of the same request: by idempotency key or render hash in memory,
+// then a completed row in the status store. Resolves with its job, or null.
+async function findReusableRender(hash, idempotencyKey) {
+    const knownId = (idempotencyKey && renderIndex.findByKey(idempotencyKey)?.videoId) || renderIndex.findByHash(hash);
+    const known = knownId ? renderQueue.get(knownId) : null;
+    if (known) return reusableJob(known);
+
+    try {
+        const row = knownId ? await statusStore.get(knownId) : null;
+        const completed = row?.status === 'completed' ? row : await statusStore.findByRenderHash(hash);
+        if (completed) {
+            // Alias rows carry the original's render hash; the render is the original's
+            const id = completed.storage_metadata?.alias_of ?? completed.id;
+            return renderQueue.get(id) || renderQueue.restore(id, { ...resultFromRow(completed), videoId: id });
+        }
+    } catch (err) {
+        console.error('⚠️ Render lookup failed:', err);
+    }
+    return null;
+}
+
+// The videos row for `manifestId` when it reuses `job`, mirroring the original's row (or the job,
+// when the original request had no manifest_id and so no row)
+function aliasRow(job, manifestId, original) {
+    const status = job.state === 'queued' ? 'processing' : job.state;
+    return {
+        id: aliasVideoId(job.id, manifestId),
+        manifest_id: manifestId,
+        status,
+        progress: job.progress,
+        progress_label: job.progress_label,
+        video_url: original?.video_url ?? job.result?.videoUrl ?? null,
+        isReady: status === 'completed',
+        storage_metadata: { ...(original?.storage_metadata || {}), alias_of: job.id }
+    };
+}
+
+// A reused render requested under another manifest_id gets a videos row of its own, so the app
+// finds the video under either id. Resolves with the alias row's id, or null when none is needed.
+async function recordAliasRow(job, manifestId) {
+    if (!manifestId) return null;
+    const mirror = async () => {
+        const original = await statusStore.get(job.id);
+        if ((original?.manifest_id ?? job.payload.manifest_id) === manifestId) return null;
+        const row = aliasRow(job, manifestId, original);
+        await statusStore.upsert(row);
+        return row.id;
+    };
+
+    try {
+        const aliasId = await mirror();
+        // Updated again once a queued or running render finishes
+        if (aliasId && !job.finishedAt) {
+            job.done.then(mirror).catch(err => console.error(`⚠️ [${aliasId}] Could not update the alias row:`, err));
+        }
+        return aliasId;
+    } catch (err) {
+        console.error(`⚠️ [${job.id}] Could not record the alias row for manifest_id ${manifestId}:`, err);
+        return null;
+    }
+}
+
+// Tells the caller's systems about the outcome, whichever way the job ends. `ids` gives a reused
+// render the caller's own `{ videoId, manifestId }`.
+function watchWithWebhooks(job, targets, ids) {
+    if (targets.length === 0) return;
+    job.done.then(async () => {
+        const deliveries = await notifyWebhooks(job, targets, ids);
+        job.webhooks = [...(job.webhooks || []), ...deliveries];
+    });
+}
+
+// Validates the request, records the videos row and queues the render, unless an identical
+// request can reuse an earlier one. Resolves with `{ job, reused }`, or sends the rejection
+// and resolves with null. `lineage` (`{ version, previousVersion }`) marks a new version of an
+// earlier video.
+async function enqueueRender(req, res, body = req.body, lineage = {}) {
+    const prepared = prepareRenderRequest(body);
+    if (!prepared.payload) {
+        res.status(prepared.status).json(prepared.body);
+        return null;
+    }
+
+    const { manifest, analysis, branding, outputs, webhooks } = prepared.payload;
+    const hash = renderHash({ manifest, analysis, branding, outputs, templateHash: bundleCache.sourceHash() });
+    const idempotencyKey = scopedIdempotencyKey(req.get('Idempotency-Key'), body?.tenant_id);
+    if (idempotencyKey) {
+        const seen = renderIndex.findByKey(idempotencyKey);
+        if (seen && seen.hash !== hash) {
+            res.status(422).json({ error: 'Idempotency-Key was already used for a different render request', videoId: seen.videoId });
+            return null;
+        }
+    }
+
+    // Another identical request may have started a render while the lookup was waiting on the store
+    const reused = await findReusableRender(hash, idempotencyKey) || reusableJob(renderQueue.get(renderIndex.findByHash(hash)));
+    if (reused) {
+        console.log(`♻️ [${reused.id}] Reusing ${reused.state} render for an identical request`);
+        renderIndex.record(reused.id, hash, idempotencyKey);
+        const aliasId = await recordAliasRow(reused, prepared.payload.manifest_id);
+        if (aliasId) console.log(`♻️ [${reused.id}] Recorded as ${aliasId} for manifest_id ${prepared.payload.manifest_id}`);
+        watchWithWebhooks(reused, webhooks, { videoId: aliasId ?? reused.id, manifestId: prepared.payload.manifest_id ?? null });
+        res.set('Idempotent-Replayed', 'true');
+        return { job: reused, reused: true };
+    }
+
+    const videoId = crypto.randomUUID();
+    const { manifest_id, manifestSource } = prepared.payload;
+    console.log(`🎬 [${videoId}] Render requested for manifest_id: ${manifest_id} (manifest source: ${manifestSource})`);
+
+    const { queued, maxQueued } = renderQueue.stats();
+    if (queued >= maxQueued) {
+        res.set('Retry-After', '30').status(503).json({ error: new QueueFullError(maxQueued).message });
+        return null;
+    }
+
+    // Record the row before queueing: a job starts as soon as it is queued, and a row written
+    // after it could overwrite a quick failure or cancellation with 'processing'
+    if (manifest_id) {
+        try {
+            await statusStore.upsert({
+                id: videoId,
+                manifest_id: manifest_id,
+                status: 'processing',
+                progress: 0,
+                progress_label: 'Queued'
+            });
+        } catch (err) {
+            console.error(`⚠️ [${videoId}] Could not record the videos row:`, err);
+        }
+    }
+
+    let job;
+    try {
+        job = renderQueue.enqueue(videoId, { ...prepared.payload, ...lineage, renderHash: hash });
+    } catch (err) {
+        // The queue filled up while the row was being written
+        if (err instanceof QueueFullError) {
+            await updateVideoRow(videoId, { status: 'failed', progress_label: 'Render queue is full' });
+            res.set('Retry-After', '30').status(503).json({ error: err.message });
+            return null;
         }
+        throw err;
+    }
+    renderIndex.record(videoId, hash, idempotencyKey);
+    watchWithWebhooks(job, webhooks);
+
+    return { job, reused: false };
+}
+
+// Synchronous endpoint: holds the request open until the render finishes
+// (required for Cloud Run to keep CPU active). Prefer POST /jobs for new clients.
+app.post('/generate-video', async (req, res) => {
+    const enqueued = await enqueueRender(req, res);
+    if (!enqueued) return;
+    const { job } = enqueued;
+
+    await job.done;
+    if (job.state === 'completed') {
+        return res.json(job.result);
+    }
+    if (job.state === 'cancelled') {
+        return res.status(409).json({ error: 'Render was cancelled', videoId: job.id });
+    }
+    return res.status(500).json({ error: job.error });
+});
+
+// Asynchronous endpoint: returns immediately with a job id to poll
+app.post('/jobs', async (req, res) => {
+    const enqueued = await enqueueRender(req, res);
+    if (!enqueued) return;
+    const { job, reused } = enqueued;
+
+    res.status(reused ? 200 : 202)
+        .location(`/jobs/${job.id}`)
+        .json(renderQueue.toJSON(job));
+});
+
+app.get('/jobs/:id', (req, res) => {
+    const job = renderQueue.get(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(renderQueue.toJSON(job));
+});
+
+// Keeps proxies from closing an idle event stream
+const SSE_HEARTBEAT_MS = 15000;
+
+// Server-Sent Events for one job, ending after its completed/failed/cancelled event.
+// A client reconnecting with Last-Event-ID gets the events it missed, or a `state` snapshot
+// of the job when those are no longer kept.
+app.get('/jobs/:id/events', (req, res) => {
+    const job = renderQueue.get(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const write = ({ id, type, data }) => res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    const lastEventId = parseInt(req.get('Last-Event-ID') ?? req.query.lastEventId, 10);
+    const missed = Number.isInteger(lastEventId) ? job.eventsSince(lastEventId) : null;
+    if (missed) {
+        missed.forEach(write);
+    } else {
+        write({ id: job.events.length > 0 ? job.events[job.events.length - 1].id : 0, type: 'state', data: renderQueue.toJSON(job) });
+    }
+
+    if (job.finishedAt) {
+        return res.end();
+    }
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+    const unsubscribe = job.subscribe(event => {
+        write(event);
+        if (TERMINAL_EVENTS.includes(event.type)) res.end();
+    });
+    res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+});
+
+app.delete('/jobs/:id', async (req, res) => {
+    const job = renderQueue.get(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+    if (!['queued', 'processing'].includes(job.state)) {
+        return res.status(409).json({ error: `Job already ${job.state}`, job: renderQueue.toJSON(job) });
+    }
+
+    const wasQueued = job.state === 'queued';
+    renderQueue.cancel(job.id);
+    console.log(`🛑 [${job.id}] Cancel requested (${wasQueued ? 'queued' : 'in flight'})`);
+
+    // Running jobs update their row when the pipeline unwinds
+    if (wasQueued) {
+        await updateVideoRow(job.id, { status: 'cancelled', progress_label: 'Cancelled' });
+    }
+    res.status(202).json(renderQueue.toJSON(job));
+});
+
+// The request a completed video was rendered from, or null when it is unknown
+async function renderedRequest(videoId) {
+    const job = renderQueue.get(videoId);
+    if (job?.state === 'completed' && job.payload.request) {
+        return { request: job.payload.request, version: job.result.version ?? 1 };
+    }
+    const row = await statusStore.get(videoId);
+    if (row?.status !== 'completed' || !row.storage_metadata?.request) return null;
+    return { request: row.storage_metadata.request, version: row.storage_metadata.version ?? 1 };
+}
+
+// Replaces one scene of a completed video and renders it as a new version. Body:
+// `{ scene: { ...fields to change } }`, plus the optional `callback_url` / `tenant_id`.
+// Unchanged scenes reuse their cached segments, so only the patched scene (and a scene that
+// transitions in from it) is rendered again. Responds like POST /jobs.
+app.patch('/videos/:id/scenes/:sceneId', async (req, res) => {
+    const { scene: changes, callback_url, tenant_id } = req.body || {};
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+        return res.status(400).json({ error: 'Body must include a scene object with the fields to change' });
+    }
+
+    let source;
+    try {
+        source = await renderedRequest(req.params.id);
+    } catch (err) {
+        console.error(`⚠️ [${req.params.id}] Could not load the video:`, err);
+        return res.status(500).json({ error: 'Could not load the video' });
+    }
+    if (!source) {
+        return res.status(404).json({ error: 'No completed video with a stored request for this id' });
+    }
+
+    const { manifest, analysis, branding, manifest_id, outputs } = source.request;
+    const index = manifest.scenes.findIndex(scene => scene.id === req.params.sceneId);
+    if (index === -1) {
+        return res.status(404).json({ error: `Video has no scene "${req.params.sceneId}"` });
+    }
+
+    const scenes = [...manifest.scenes];
+    scenes[index] = { ...scenes[index], ...changes, id: req.params.sceneId };
+    console.log(`✏️ [${req.params.id}] Patching scene ${req.params.sceneId} (version ${source.version + 1})`);
+
+    const enqueued = await enqueueRender(req, res, {
+        manifest: { ...manifest, scenes },
+        analysis,
+        branding,
+        manifest_id,
+        outputs,
+        callback_url,
+        tenant_id
+    }, { version: source.version + 1, previousVersion: req.params.id });
+    if (!enqueued) return;
+    const { job, reused } = enqueued;
+
+    res.status(reused ? 200 : 202)
+        .location(`/jobs/${job.id}`)
+        .json(renderQueue.toJSON(job));
+});
+
+app.get('/bundle', (req, res) => {
+    res.json(bundleCache.status());
+});
+
+// Forces a rebuild, e.g. after changing templates or assets under public/; needs ADMIN_TOKEN
+app.post('/bundle/rebuild', requireAdmin, async (req, res) => {
+    try {
+        await bundleCache.rebuild();
+        res.json(bundleCache.status());
+    } catch (err) {
+        console.error('💥 Bundle rebuild failed:', err);
+        res.status(500).json({ error: err.message });
     }
 });
 
 // Serve static assets
 app.use('/videos', express.static(outputDir));
 app.use('/audio', express.static(audioDir));
+if (artifactStore.directory) {
+    app.use(artifactStore.mountPath, express.static(artifactStore.directory));
+}
 
 app.listen(PORT, () => {
     console.log(`🚀 Video Generator service running on http://localhost:${PORT}`);
+
+    // Warm the bundle so the first render does not pay for it; a failure is retried by that render
+    bundleCache.get().catch(err => console.error('⚠️ Startup bundle failed:', err));
 });
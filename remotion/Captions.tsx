@@ -0,0 +1,154 @@
+import React from 'react';
+import { useCurrentFrame, useVideoConfig } from 'remotion';
+import { Caption } from '@remotion/captions';
+import { CaptionStyle } from './types';
+import { useTheme } from './themes';
+
+interface CaptionsProps {
+  text: string;
+  captions?: Caption[];
+  style?: CaptionStyle;
+  safeArea: { top: number; bottom: number; left: number; right: number };
+  contentWidth: number;
+  opacity: number;
+}
+
+interface CaptionPage {
+  startMs: number;
+  endMs: number;
+  lines: Caption[][];
+}
+
+const DEFAULT_MAX_LINES = 2;
+// Rough glyph width relative to font size, used to wrap without measuring
+const AVERAGE_CHAR_WIDTH = 0.55;
+
+// Greedily fills lines of at most `charsPerLine`, starting a new page after `maxLines`
+export const paginateCaptions = (captions: Caption[], charsPerLine: number, maxLines: number): CaptionPage[] => {
+  const pages: CaptionPage[] = [];
+  let lines: Caption[][] = [[]];
+  let lineLength = 0;
+
+  const flush = () => {
+    const words = lines.flat();
+    if (words.length === 0) return;
+    pages.push({ startMs: words[0].startMs, endMs: words[words.length - 1].endMs, lines });
+  };
+
+  captions.forEach((caption) => {
+    const length = caption.text.trim().length;
+    const current = lines[lines.length - 1];
+
+    if (current.length > 0 && lineLength + 1 + length > charsPerLine) {
+      if (lines.length >= maxLines) {
+        flush();
+        lines = [[]];
+      } else {
+        lines.push([]);
+      }
+      lineLength = 0;
+    }
+
+    lines[lines.length - 1].push(caption);
+    lineLength += (lineLength > 0 ? 1 : 0) + length;
+  });
+  flush();
+
+  return pages;
+};
+
+export const Captions: React.FC<CaptionsProps> = ({ text, captions, style, safeArea, contentWidth, opacity }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const theme = useTheme();
+
+  if (style?.enabled === false) return null;
+
+  const fontSize = Math.min(32, contentWidth / 35);
+  const position = style?.position || 'bottom';
+  const highlightColor = style?.highlightColor || theme.captions.highlight;
+  const maxLines = Math.max(1, Math.floor(style?.maxLines || DEFAULT_MAX_LINES));
+
+  const containerWidth = contentWidth - 80;
+  const charsPerLine = Math.max(10, Math.floor((containerWidth - 80) / (fontSize * AVERAGE_CHAR_WIDTH)));
+
+  const positionStyle: React.CSSProperties =
+    position === 'top'
+      ? { top: safeArea.top + 20 }
+      : position === 'middle'
+        ? { top: '50%', transform: 'translateY(-50%)' }
+        : { bottom: safeArea.bottom + 20 };
+
+  const container = (children: React.ReactNode) => (
+    <div
+      style={{
+        position: 'absolute',
+        ...positionStyle,
+        left: safeArea.left + 40,
+        right: safeArea.right + 40,
+        borderRadius: '16px',
+        padding: '24px 40px',
+        borderTop: `2px solid ${theme.captions.border}`,
+        zIndex: 100,
+        opacity,
+        overflow: 'hidden',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center'
+      }}
+    >
+      {children}
+    </div>
+  );
+
+  // No word timings: show the whole narration for the duration of the scene
+  if (!captions || captions.length === 0) {
+    return container(
+      <p
+        style={{
+          fontSize,
+          color: theme.captions.text,
+          textAlign: 'center',
+          lineHeight: '1.5',
+          fontWeight: '500',
+          wordWrap: 'break-word',
+          margin: 0,
+          maxHeight: fontSize * 1.5 * maxLines,
+          overflow: 'hidden'
+        }}
+      >
+        "{text}"
+      </p>
+    );
+  }
+
+  const timeMs = (frame / fps) * 1000;
+  const pages = paginateCaptions(captions, charsPerLine, maxLines);
+  // Hold each page until the next one starts so there are no blank gaps between phrases
+  const page = [...pages].reverse().find((p) => p.startMs <= timeMs) || pages[0];
+
+  return container(
+    <div style={{ textAlign: 'center', lineHeight: '1.5', fontWeight: '500', fontSize }}>
+      {page.lines.map((line, lineIndex) => (
+        <div key={lineIndex} style={{ whiteSpace: 'pre' }}>
+          {line.map((word, wordIndex) => {
+            const active = word.startMs <= timeMs && timeMs < word.endMs;
+            const spoken = word.endMs <= timeMs;
+            return (
+              <span
+                key={wordIndex}
+                style={{
+                  color: active ? highlightColor : theme.captions.text,
+                  opacity: active || spoken ? 1 : 0.5,
+                  fontWeight: active ? '700' : '500'
+                }}
+              >
+                {wordIndex === 0 ? word.text.trimStart() : ` ${word.text.trim()}`}
+              </span>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
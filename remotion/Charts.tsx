@@ -0,0 +1,386 @@
+import React from 'react';
+import { Easing, interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { VisualComponent } from './types';
+import { Theme, useTheme, withAlpha } from './themes';
+import { formatNumber } from './format';
+import { useLocale } from './i18n';
+
+type ComponentOf<T extends VisualComponent['type']> = Extract<VisualComponent, { type: T }>;
+
+interface ChartProps<T> {
+  component: T;
+  width: number;
+  height: number;
+  // Tick and label size
+  fontSize: number;
+  // Frames to wait before animating in, for staggering
+  delay: number;
+}
+
+const seriesColor = (theme: Theme, index: number, color?: string) =>
+  color || theme.charts.series[index % theme.charts.series.length];
+
+// Eased 0 -> 1 over `seconds`, starting after `delay` frames
+const useReveal = (delay: number, seconds = 1) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  return interpolate(frame - delay, [0, seconds * fps], [0, 1], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+    easing: Easing.out(Easing.cubic)
+  });
+};
+
+const Legend: React.FC<{ items: Array<{ label: string; color: string; detail?: string }>; fontSize: number; column?: boolean }> = ({
+  items,
+  fontSize,
+  column
+}) => {
+  const theme = useTheme();
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: column ? 'column' : 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        gap: column ? fontSize * 0.6 : fontSize * 1.5
+      }}
+    >
+      {items.map((item) => (
+        <div key={item.label} style={{ display: 'flex', alignItems: 'center', gap: fontSize * 0.5, fontSize, color: theme.text.muted }}>
+          <div style={{ width: fontSize * 0.7, height: fontSize * 0.7, borderRadius: '50%', backgroundColor: item.color }} />
+          <span>{item.label}</span>
+          {item.detail && <span style={{ color: theme.text.primary, fontWeight: 'bold' }}>{item.detail}</span>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// line_chart and area_chart: drawn left to right by widening a clip over the plot
+export const SeriesChart: React.FC<ChartProps<ComponentOf<'line_chart'> | ComponentOf<'area_chart'>>> = ({
+  component,
+  width,
+  height,
+  fontSize,
+  delay
+}) => {
+  const theme = useTheme();
+  const { tag: locale } = useLocale();
+  const reveal = useReveal(delay, 1.2);
+  const series = component.series || [];
+  const labels = component.labels || [];
+  const data = labels.map((label, i) => ({
+    label,
+    ...Object.fromEntries(series.map((s, k) => [`s${k}`, s.values[i]]))
+  }));
+  const colors = series.map((s, k) => seriesColor(theme, k, s.color));
+  const legendHeight = series.length > 1 ? fontSize * 2.5 : 0;
+  const plotHeight = height - legendHeight;
+
+  const axes = [
+    <CartesianGrid key="grid" stroke={theme.charts.grid} vertical={false} />,
+    <XAxis key="x" dataKey="label" tick={{ fill: theme.text.muted, fontSize }} axisLine={false} tickLine={false} />,
+    <YAxis
+      key="y"
+      width={fontSize * 4}
+      tick={{ fill: theme.text.muted, fontSize }}
+      tickFormatter={(value: number) => formatNumber(value, component.unit, { compact: true, locale })}
+      axisLine={false}
+      tickLine={false}
+    />
+  ];
+  const margin = { top: fontSize, right: fontSize * 1.5, bottom: 0, left: 0 };
+
+  // Time runs left to right in every locale, so the plot is not mirrored for RTL
+  return (
+    <div style={{ width, height, direction: 'ltr' }}>
+      {legendHeight > 0 && (
+        <div style={{ height: legendHeight }}>
+          <Legend items={series.map((s, k) => ({ label: s.name, color: colors[k] }))} fontSize={fontSize} />
+        </div>
+      )}
+      <div style={{ clipPath: `inset(0 ${(1 - reveal) * 100}% 0 0)` }}>
+        {component.type === 'area_chart' ? (
+          <AreaChart width={width} height={plotHeight} data={data} margin={margin}>
+            {axes}
+            {series.map((s, k) => (
+              <Area
+                key={k}
+                dataKey={`s${k}`}
+                name={s.name}
+                type="monotone"
+                stroke={colors[k]}
+                strokeWidth={4}
+                fill={withAlpha(colors[k], 0.25)}
+                isAnimationActive={false}
+              />
+            ))}
+          </AreaChart>
+        ) : (
+          <LineChart width={width} height={plotHeight} data={data} margin={margin}>
+            {axes}
+            {series.map((s, k) => (
+              <Line
+                key={k}
+                dataKey={`s${k}`}
+                name={s.name}
+                type="monotone"
+                stroke={colors[k]}
+                strokeWidth={5}
+                dot={{ r: fontSize * 0.3, fill: colors[k], strokeWidth: 0 }}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Floating bars from the running total; each bar grows in turn
+export const WaterfallChart: React.FC<ChartProps<ComponentOf<'waterfall'>>> = ({ component, width, height, fontSize, delay }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const theme = useTheme();
+  const { tag: locale } = useLocale();
+  const steps = component.steps || [];
+
+  let running = 0;
+  const bars = steps.map((step) => {
+    const from = step.total ? 0 : running;
+    const to = step.total ? step.value : running + step.value;
+    running = to;
+    return { ...step, from, to };
+  });
+
+  const values = bars.flatMap((bar) => [bar.from, bar.to]);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const top = fontSize * 1.8;
+  const bottom = height - fontSize * 2.4;
+  const y = (value: number) => bottom - ((value - min) / (max - min || 1)) * (bottom - top);
+  const slot = width / Math.max(1, bars.length);
+  const barWidth = slot * 0.6;
+
+  return (
+    <svg width={width} height={height} style={{ direction: 'ltr' }}>
+      <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke={theme.charts.grid} strokeWidth={2} />
+      {bars.map((bar, i) => {
+        const grow = spring({ frame: frame - delay - i * 4, fps, config: { damping: 200, stiffness: 100, mass: 0.5 } });
+        const current = bar.from + (bar.to - bar.from) * grow;
+        const x = i * slot + (slot - barWidth) / 2;
+        const color = bar.total ? theme.accent : bar.value >= 0 ? theme.semantic.positive : theme.semantic.negative;
+        const next = bars[i + 1];
+        const rising = bar.to >= bar.from;
+
+        return (
+          <g key={i}>
+            <rect
+              x={x}
+              y={Math.min(y(bar.from), y(current))}
+              width={barWidth}
+              height={Math.abs(y(current) - y(bar.from))}
+              rx={6}
+              fill={color}
+            />
+            {next && !next.total && grow > 0.99 && (
+              <line
+                x1={x + barWidth}
+                x2={x + slot}
+                y1={y(bar.to)}
+                y2={y(bar.to)}
+                stroke={theme.text.faint}
+                strokeWidth={2}
+                strokeDasharray="6 6"
+              />
+            )}
+            <text
+              x={x + barWidth / 2}
+              y={rising ? y(bar.to) - fontSize * 0.5 : y(bar.to) + fontSize * 1.2}
+              textAnchor="middle"
+              fontSize={fontSize}
+              fontWeight="bold"
+              fill={theme.text.primary}
+              opacity={grow}
+            >
+              {formatNumber(bar.value, component.unit, { compact: true, signed: !bar.total, locale })}
+            </text>
+            <text x={x + barWidth / 2} y={height - fontSize * 0.6} textAnchor="middle" fontSize={fontSize * 0.9} fill={theme.text.muted}>
+              {bar.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Segments sweep clockwise from 12 o'clock; the legend sits beside the ring (below it when narrow)
+export const DonutChart: React.FC<ChartProps<ComponentOf<'donut'>>> = ({ component, width, height, fontSize, delay }) => {
+  const theme = useTheme();
+  const { tag: locale } = useLocale();
+  const sweep = useReveal(delay, 1.2);
+  const segments = component.segments || [];
+  const total = segments.reduce((acc, segment) => acc + segment.value, 0);
+
+  const legendBeside = width > height * 1.4;
+  const size = legendBeside ? Math.min(height, width * 0.5) : Math.min(width, height * 0.65);
+  const stroke = size * 0.16;
+  const radius = size / 2 - stroke / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  let offset = 0;
+  const arcs = segments.map((segment, i) => {
+    const length = total > 0 ? (segment.value / total) * circumference : 0;
+    const visible = Math.max(0, Math.min(length, sweep * circumference - offset));
+    const arc = { ...segment, color: seriesColor(theme, i, segment.color), start: offset, visible };
+    offset += length;
+    return arc;
+  });
+
+  return (
+    <div
+      style={{
+        width,
+        height,
+        display: 'flex',
+        flexDirection: legendBeside ? 'row' : 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: fontSize * 2
+      }}
+    >
+      <div style={{ position: 'relative', width: size, height: size }}>
+        <svg width={size} height={size} style={{ transform: 'rotate(-90deg)' }}>
+          <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke={theme.charts.grid} strokeWidth={stroke} />
+          {arcs.map((arc, i) => (
+            <circle
+              key={i}
+              cx={size / 2}
+              cy={size / 2}
+              r={radius}
+              fill="none"
+              stroke={arc.color}
+              strokeWidth={stroke}
+              strokeDasharray={`${arc.visible} ${circumference}`}
+              strokeDashoffset={-arc.start}
+            />
+          ))}
+        </svg>
+        <div
+          style={{
+            position: 'absolute',
+            inset: 0,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontSize: fontSize * 1.8,
+            fontWeight: 'bold',
+            color: theme.text.primary,
+            opacity: sweep
+          }}
+        >
+          {component.centerLabel ?? formatNumber(total, component.unit, { compact: true, locale })}
+        </div>
+      </div>
+      <div style={{ opacity: sweep }}>
+        <Legend
+          column={legendBeside}
+          fontSize={fontSize * 1.1}
+          items={arcs.map((arc) => ({
+            label: arc.label,
+            color: arc.color,
+            detail: total > 0 ? formatNumber((arc.value / total) * 100, '%', { locale }) : undefined
+          }))}
+        />
+      </div>
+    </div>
+  );
+};
+
+// Rows fade in one after another; numeric cells are end-aligned (right, or left in RTL) and formatted with the unit
+export const FinancialTable: React.FC<Omit<ChartProps<ComponentOf<'financial_table'>>, 'height'>> = ({
+  component,
+  width,
+  fontSize,
+  delay
+}) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const theme = useTheme();
+  const { tag: locale } = useLocale();
+  const toneColors = {
+    positive: theme.semantic.positive,
+    negative: theme.semantic.negative,
+    warning: theme.semantic.warning,
+    accent: theme.accentText
+  };
+  const highlightAt = (row: number, column: number) =>
+    component.highlights?.find((h) => h.row === row && h.column === column);
+  const cellPadding = `${fontSize * 0.6}px ${fontSize}px`;
+
+  return (
+    <table style={{ width, borderCollapse: 'collapse', fontSize }}>
+      <thead>
+        <tr>
+          <th />
+          {(component.columns || []).map((column, c) => (
+            <th
+              key={c}
+              style={{
+                textAlign: 'end',
+                padding: cellPadding,
+                color: theme.text.muted,
+                fontWeight: '600',
+                borderBottom: `2px solid ${theme.border}`
+              }}
+            >
+              {column}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {(component.rows || []).map((row, r) => {
+          const rowFadeIn = spring({ frame: frame - delay - r * 3, fps, config: { damping: 200, stiffness: 100, mass: 0.5 } });
+          return (
+            <tr key={r} style={{ opacity: rowFadeIn, borderBottom: `1px solid ${theme.border}` }}>
+              <td
+                style={{
+                  padding: cellPadding,
+                  color: row.emphasis ? theme.text.primary : theme.text.body,
+                  fontWeight: row.emphasis ? 'bold' : '500'
+                }}
+              >
+                {row.label}
+              </td>
+              {row.values.map((value, c) => {
+                const highlight = highlightAt(r, c);
+                const tone = highlight ? toneColors[highlight.tone || 'accent'] : null;
+                return (
+                  <td
+                    key={c}
+                    style={{
+                      textAlign: 'end',
+                      padding: cellPadding,
+                      fontVariantNumeric: 'tabular-nums',
+                      color: tone || theme.text.primary,
+                      backgroundColor: tone ? withAlpha(tone, 0.15) : undefined,
+                      fontWeight: row.emphasis || tone ? 'bold' : '500'
+                    }}
+                  >
+                    {typeof value === 'number' ? formatNumber(value, component.unit, { locale }) : value}
+                  </td>
+                );
+              })}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
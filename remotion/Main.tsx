@@ -1,33 +1,70 @@
 import React from 'react';
-import { Series, Audio, AbsoluteFill } from 'remotion';
-import { VideoManifest, LoanAnalysis } from './types';
+import { Sequence, Audio, AbsoluteFill } from 'remotion';
+import { TransitionSeries } from '@remotion/transitions';
+import { VideoManifest, LoanAnalysis, Branding } from './types';
 import { Scene } from './Scene';
+import { ThemeContext, getTheme } from './themes';
+import { applyBranding, useBrandFont } from './branding';
+import { resolveTransition } from './transitions';
+import { LocaleContext, resolveLocale } from './i18n';
 
-export interface MainProps {
+// A type alias rather than an interface so it satisfies Remotion's Record<string, unknown> props constraint
+export type MainProps = {
   manifest: VideoManifest;
   analysis: LoanAnalysis;
-}
+  branding?: Branding | null;
+};
+
+export const Main: React.FC<MainProps> = ({ manifest, analysis, branding }) => {
+  useBrandFont(branding?.font);
 
-export const Main: React.FC<MainProps> = ({ manifest, analysis }) => {
   if (!manifest) return null;
 
   const fps = manifest.meta.fps || 30;
+  const theme = applyBranding(getTheme(manifest.meta.theme), branding);
+  const locale = resolveLocale(manifest.meta.locale);
+  // Must match sceneFrames() in server/sceneTiming.js
+  const frames = manifest.scenes.map((scene) => Math.max(1, Math.round(scene.duration * fps)));
+  const transitions = manifest.scenes.map((scene, index) =>
+    index === 0 ? null : resolveTransition(manifest.meta, scene, fps, frames[index])
+  );
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#0f172a' }}>
-      <Series>
-        {manifest.scenes.map((scene, index) => {
-          const durationInFrames = Math.max(1, Math.floor(scene.duration * fps));
-          return (
-            <Series.Sequence key={scene.id || index} durationInFrames={durationInFrames}>
-              <Scene scene={scene} analysis={analysis} />
-              {scene.narration?.audioUrl && (
-                <Audio src={scene.narration.audioUrl} />
-              )}
-            </Series.Sequence>
-          );
-        })}
-      </Series>
-    </AbsoluteFill>
+    <ThemeContext.Provider value={theme}>
+      <LocaleContext.Provider value={locale}>
+        <AbsoluteFill style={{ backgroundColor: theme.background, direction: locale.direction }} lang={locale.tag}>
+          <TransitionSeries>
+            {manifest.scenes.map((scene, index) => {
+              const incoming = transitions[index];
+              // A scene is held on screen while the next one transitions in, so every scene
+              // still starts on its planned frame and the total length is unchanged
+              const holdFrames = transitions[index + 1]?.durationInFrames || 0;
+              return (
+                <React.Fragment key={scene.id || index}>
+                  {incoming && (
+                    <TransitionSeries.Transition presentation={incoming.presentation} timing={incoming.timing} />
+                  )}
+                  <TransitionSeries.Sequence durationInFrames={frames[index] + holdFrames}>
+                    <Scene
+                      scene={scene}
+                      analysis={analysis}
+                      captionStyle={manifest.meta.captions}
+                      branding={branding}
+                      animateIn={!incoming}
+                    />
+                    {scene.narration?.audioUrl && (
+                      // Ends with the scene itself so narration never plays under the next one
+                      <Sequence durationInFrames={frames[index]} layout="none">
+                        <Audio src={scene.narration.audioUrl} />
+                      </Sequence>
+                    )}
+                  </TransitionSeries.Sequence>
+                </React.Fragment>
+              );
+            })}
+          </TransitionSeries>
+        </AbsoluteFill>
+      </LocaleContext.Provider>
+    </ThemeContext.Provider>
   );
 };
@@ -1,6 +1,13 @@
 import React from 'react';
-import { Composition } from 'remotion';
-import { Main } from './Main';
+import { Composition, CalculateMetadataFunction } from 'remotion';
+import { Main, MainProps } from './Main';
+import { parseResolution } from './resolution';
+
+// Output size and frame rate follow the manifest (meta.resolution, meta.fps)
+const calculateMetadata: CalculateMetadataFunction<MainProps> = ({ props }) => {
+  const { width, height } = parseResolution(props.manifest?.meta.resolution);
+  return { width, height, fps: props.manifest?.meta.fps || 30 };
+};
 
 export const RemotionRoot: React.FC = () => {
   return (
@@ -12,6 +19,7 @@ export const RemotionRoot: React.FC = () => {
         fps={30}
         width={1920}
         height={1080}
+        calculateMetadata={calculateMetadata}
         defaultProps={{
           manifest: null as any,
           analysis: null as any,
@@ -1,13 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 
 import { 
   AbsoluteFill, 
   interpolate, 
   useCurrentFrame, 
   useVideoConfig, 
-  staticFile,
   spring,
-  Sequence
+  Sequence,
+  Img
 } from 'remotion';
 import { 
   TrendingUp, 
@@ -21,26 +21,43 @@ import {
   Building2
 } from 'lucide-react';
 import { Bar, BarChart, XAxis, YAxis, ResponsiveContainer } from 'recharts';
-import { VideoScene as VideoSceneType, LoanAnalysis, VisualComponent } from './types';
+import { VideoScene as VideoSceneType, LoanAnalysis, VisualComponent, CaptionStyle, Branding } from './types';
+import { Captions } from './Captions';
+import { SeriesChart, WaterfallChart, DonutChart, FinancialTable } from './Charts';
+import { useTheme, withAlpha } from './themes';
+import { useLocale, fillString, translateCode } from './i18n';
+import { logoSource, wordmarkText } from './branding';
+import { layoutCanvas, safeArea } from './resolution';
+import { planLayout, LayoutSlot, PlacedComponent } from './layouts';
 import { Circle, Rect, Triangle } from '@remotion/shapes';
 import { makeTransform, translateY } from '@remotion/animation-utils';
 
 interface SceneProps {
   scene: VideoSceneType;
   analysis: LoanAnalysis;
+  captionStyle?: CaptionStyle;
+  branding?: Branding | null;
+  // Off when the scene is revealed by a transition, which already animates it in
+  animateIn?: boolean;
 }
 
-// Safe area boundaries (maintain 5% padding on all sides)
-const SAFE_AREA_PADDING = {
-  top: 54,    // 5% of 1080
-  bottom: 54,
-  left: 96,   // 5% of 1920
-  right: 96
-};
+// Kept clear below full-bleed charts so captions stay legible
+const CAPTION_BAND = 140;
 
-export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
+export const Scene: React.FC<SceneProps> = ({ scene, analysis, captionStyle, branding, animateIn = true }) => {
   const frame = useCurrentFrame();
-  const { fps, width, height } = useVideoConfig();
+  const { fps, width: videoWidth, height: videoHeight } = useVideoConfig();
+  const theme = useTheme();
+  const locale = useLocale();
+  const { strings } = locale;
+  // Everything below is sized in canvas pixels; the canvas is scaled up or down to the output
+  const canvas = layoutCanvas(videoWidth, videoHeight);
+  const { width, height, portrait } = canvas;
+  const safeAreaPadding = safeArea(canvas);
+  // A logo that cannot be loaded is dropped rather than failing the render; the wordmark stays
+  const [logoFailed, setLogoFailed] = useState(false);
+  const logo = logoFailed ? null : logoSource(branding);
+  const wordmark = wordmarkText(branding);
   
   // Audio Debug
   if (frame === 0) {
@@ -52,7 +69,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
   }
 
   // Professional spring animations
-  const fadeIn = spring({
+  const fadeIn = !animateIn ? 1 : spring({
     frame,
     fps,
     config: {
@@ -62,7 +79,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
     }
   });
 
-  const slideUp = spring({
+  const slideUp = !animateIn ? 0 : spring({
     frame: frame - 5,
     fps,
     from: 60,
@@ -85,11 +102,71 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
   });
 
   // Calculate safe content area
-  const contentWidth = width - SAFE_AREA_PADDING.left - SAFE_AREA_PADDING.right;
-  const contentHeight = height - SAFE_AREA_PADDING.top - SAFE_AREA_PADDING.bottom;
+  const contentWidth = width - safeAreaPadding.left - safeAreaPadding.right;
+  const contentHeight = height - safeAreaPadding.top - safeAreaPadding.bottom;
   const maxContentWidth = Math.min(contentWidth, 1600); // Maximum content width
 
-  const renderComponent = (component: VisualComponent, index: number) => {
+  const plan = planLayout(
+    scene?.visuals?.layout,
+    scene?.visuals?.components || [],
+    { width: contentWidth, height: contentHeight },
+    { left: -safeAreaPadding.left, top: -safeAreaPadding.top, width, height },
+    portrait
+  );
+
+  // Shared frame for charts: title above a plot sized to the slot (edge to edge when full-bleed,
+  // where the scene title stands in for the chart title)
+  const chartFrame = (
+    index: number,
+    title: string,
+    slot: LayoutSlot,
+    opacity: number,
+    offsetY: number,
+    renderChart: (chart: { width: number; height: number; fontSize: number }) => React.ReactNode
+  ) => {
+    const chart = {
+      width: slot.bleed
+        ? slot.box.width
+        : Math.min(Math.min(slot.box.width, maxContentWidth) - 100, width - 300),
+      height: slot.bleed
+        ? slot.box.height - (slot.insetTop || 0) - safeAreaPadding.bottom - CAPTION_BAND
+        : Math.min(400, slot.box.height / 2),
+      fontSize: Math.min(20, contentWidth / 60)
+    };
+    return (
+      <div 
+        key={index} 
+        style={{ 
+          width: '100%', 
+          maxWidth: slot.bleed ? 'none' : maxContentWidth,
+          opacity,
+          transform: `translateY(${offsetY}px)`
+        }}
+      >
+        {!slot.bleed && (
+          <p style={{ 
+            fontSize: Math.min(36, contentWidth / 30), 
+            color: theme.text.muted, 
+            marginBottom: '32px',
+            textAlign: 'center',
+            fontWeight: '600'
+          }}>
+            {title}
+          </p>
+        )}
+        <div style={{ 
+          height: chart.height, 
+          display: 'flex', 
+          justifyContent: 'center',
+          padding: slot.bleed ? 0 : '0 20px'
+        }}>
+          {renderChart(chart)}
+        </div>
+      </div>
+    );
+  };
+
+  const renderComponent = (component: VisualComponent, index: number, slot: LayoutSlot) => {
     if (!component) return null;
 
     // Stagger animation for multiple items
@@ -123,7 +200,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
             style={{ 
               fontSize: Math.min(72, contentWidth / 15),
               fontWeight: 'bold', 
-              color: 'white', 
+              color: theme.text.primary, 
               marginBottom: '48px',
               textAlign: 'center',
               width: '100%',
@@ -145,7 +222,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
             key={index} 
             style={{ 
               fontSize: Math.min(36, contentWidth / 30),
-              color: '#94a3b8', 
+              color: theme.text.secondary, 
               marginBottom: '32px',
               textAlign: 'center',
               width: '100%',
@@ -165,14 +242,14 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
           <div 
             key={index} 
             style={{ 
-              backgroundColor: 'rgba(31, 41, 55, 0.8)', 
-              border: '2px solid rgba(255, 255, 255, 0.15)', 
+              backgroundColor: theme.surfaceStrong, 
+              border: `2px solid ${theme.border}`, 
               borderRadius: '24px', 
               padding: '32px 24px',
               textAlign: 'center',
-              flex: '1 1 0',
+              flex: portrait ? 'none' : '1 1 0',
               minWidth: '200px',
-              maxWidth: '350px',
+              maxWidth: portrait ? 'none' : '350px',
               opacity: itemFadeIn,
               transform: `translateY(${itemSlideUp}px) scale(${itemFadeIn})`,
               position: 'relative',
@@ -183,13 +260,13 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
             <div style={{ position: 'absolute', top: -20, right: -20, opacity: 0.1 }}>
               <Circle
                 radius={60}
-                fill="white"
+                fill={theme.decor.shape}
               />
             </div>
             
             <p style={{ 
               fontSize: Math.min(28, contentWidth / 40), 
-              color: '#94a3b8', 
+              color: theme.text.secondary, 
               marginBottom: '12px',
               fontWeight: '600'
             }}>
@@ -198,7 +275,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
             <p style={{ 
               fontSize: Math.min(48, contentWidth / 25), 
               fontWeight: 'bold', 
-              color: 'white',
+              color: theme.text.primary,
               wordBreak: 'break-word'
             }}>
               {component.value}
@@ -212,7 +289,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
             key={index} 
             style={{ 
               display: 'grid', 
-              gridTemplateColumns: component.items && component.items.length > 2 
+              gridTemplateColumns: component.items && component.items.length > 2 && !portrait
                 ? 'repeat(auto-fit, minmax(250px, 1fr))' 
                 : '1fr 1fr',
               gap: '32px', 
@@ -232,8 +309,8 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                 <div 
                   key={i} 
                   style={{ 
-                    backgroundColor: 'rgba(31, 41, 55, 0.7)', 
-                    border: '2px solid rgba(255, 255, 255, 0.15)', 
+                    backgroundColor: theme.surface, 
+                    border: `2px solid ${theme.border}`, 
                     borderRadius: '24px', 
                     padding: '32px 24px',
                     textAlign: 'center',
@@ -245,7 +322,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                 >
                   <p style={{ 
                     fontSize: Math.min(24, contentWidth / 50), 
-                    color: '#9ca3af', 
+                    color: theme.text.muted, 
                     marginBottom: '12px'
                   }}>
                     {item.label}
@@ -253,7 +330,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                   <p style={{ 
                     fontSize: Math.min(44, contentWidth / 30), 
                     fontWeight: 'bold', 
-                    color: 'white',
+                    color: theme.text.primary,
                     wordBreak: 'break-word'
                   }}>
                     {item.value}
@@ -266,13 +343,13 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
 
       case "metric_card":
         const TrendIcon = component.trend === "up" ? TrendingUp : component.trend === "down" ? TrendingDown : Minus;
-        const trendColor = component.trend === "up" ? "#4ade80" : component.trend === "down" ? "#f87171" : "#9ca3af";
+        const trendColor = component.trend === "up" ? theme.semantic.positive : component.trend === "down" ? theme.semantic.negative : theme.semantic.neutral;
         return (
           <div 
             key={index} 
             style={{ 
-              backgroundColor: 'rgba(31, 41, 55, 0.7)', 
-              border: '3px solid rgba(255, 255, 255, 0.15)', 
+              backgroundColor: theme.surface, 
+              border: `3px solid ${theme.border}`, 
               borderRadius: '32px', 
               padding: '48px 40px',
               textAlign: 'center', 
@@ -286,7 +363,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
           >
             <p style={{ 
               fontSize: Math.min(32, contentWidth / 35), 
-              color: '#9ca3af', 
+              color: theme.text.muted, 
               marginBottom: '20px',
               fontWeight: '600'
             }}>
@@ -302,7 +379,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
               <p style={{ 
                 fontSize: Math.min(80, contentWidth / 15), 
                 fontWeight: 'bold', 
-                color: '#60a5fa'
+                color: theme.accentText
               }}>
                 {component.value}
               </p>
@@ -316,7 +393,46 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
         );
 
       case "bar_chart":
-        const chartWidth = Math.min(maxContentWidth - 100, width - 300);
+        return chartFrame(index, component.title, slot, itemFadeIn, itemSlideUp, (chart) => (
+          <BarChart 
+            width={chart.width} 
+            height={chart.height} 
+            data={component.data || []}
+          >
+            <XAxis 
+              dataKey="year" 
+              tick={{ fill: theme.text.muted, fontSize: chart.fontSize }} 
+              axisLine={false} 
+              tickLine={false} 
+            />
+            <YAxis hide />
+            <Bar 
+              dataKey="value" 
+              fill={theme.accent} 
+              radius={[12, 12, 0, 0]} 
+              animationDuration={800}
+              animationBegin={staggerDelay * 16.67}
+            />
+          </BarChart>
+        ));
+
+      case "line_chart":
+      case "area_chart":
+        return chartFrame(index, component.title, slot, itemFadeIn, itemSlideUp, (chart) => (
+          <SeriesChart component={component} delay={staggerDelay} {...chart} />
+        ));
+
+      case "waterfall":
+        return chartFrame(index, component.title, slot, itemFadeIn, itemSlideUp, (chart) => (
+          <WaterfallChart component={component} delay={staggerDelay} {...chart} />
+        ));
+
+      case "donut":
+        return chartFrame(index, component.title, slot, itemFadeIn, itemSlideUp, (chart) => (
+          <DonutChart component={component} delay={staggerDelay} {...chart} />
+        ));
+
+      case "financial_table":
         return (
           <div 
             key={index} 
@@ -324,45 +440,30 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
               width: '100%', 
               maxWidth: maxContentWidth,
               opacity: itemFadeIn,
-              transform: `translateY(${itemSlideUp}px)`
+              transform: `translateY(${itemSlideUp}px)`,
+              backgroundColor: theme.surface, 
+              border: `2px solid ${theme.border}`, 
+              borderRadius: '24px', 
+              padding: '28px 32px',
+              boxSizing: 'border-box'
             }}
           >
-            <p style={{ 
-              fontSize: Math.min(36, contentWidth / 30), 
-              color: '#9ca3af', 
-              marginBottom: '32px',
-              textAlign: 'center',
-              fontWeight: '600'
-            }}>
-              {component.title}
-            </p>
-            <div style={{ 
-              height: Math.min(400, contentHeight / 2), 
-              display: 'flex', 
-              justifyContent: 'center',
-              padding: '0 20px'
-            }}>
-              <BarChart 
-                width={chartWidth} 
-                height={Math.min(400, contentHeight / 2)} 
-                data={component.data || []}
-              >
-                <XAxis 
-                  dataKey="year" 
-                  tick={{ fill: "#9ca3af", fontSize: Math.min(20, contentWidth / 60) }} 
-                  axisLine={false} 
-                  tickLine={false} 
-                />
-                <YAxis hide />
-                <Bar 
-                  dataKey="value" 
-                  fill="#3b82f6" 
-                  radius={[12, 12, 0, 0]} 
-                  animationDuration={800}
-                  animationBegin={staggerDelay * 16.67}
-                />
-              </BarChart>
-            </div>
+            {component.title && (
+              <p style={{ 
+                fontSize: Math.min(32, contentWidth / 35), 
+                color: theme.text.muted, 
+                marginBottom: '16px',
+                fontWeight: '600'
+              }}>
+                {component.title}
+              </p>
+            )}
+            <FinancialTable
+              component={component}
+              width={Math.min(slot.box.width, maxContentWidth) - 64}
+              fontSize={Math.min(26, contentWidth / 45)}
+              delay={staggerDelay}
+            />
           </div>
         );
 
@@ -393,25 +494,26 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                     display: 'flex', 
                     alignItems: 'center', 
                     gap: '24px',
-                    backgroundColor: 'rgba(31, 41, 55, 0.7)', 
-                    border: '2px solid rgba(255, 255, 255, 0.15)', 
+                    backgroundColor: theme.surface, 
+                    border: `2px solid ${theme.border}`, 
                     borderRadius: '24px', 
                     padding: '24px 28px',
                     opacity: riskFadeIn,
-                    transform: `translateX(${interpolate(riskFadeIn, [0, 1], [-40, 0])})`,
+                    // Slides in from the start of the line: the left, or the right in RTL
+                    transform: `translateX(${interpolate(riskFadeIn, [0, 1], [locale.direction === 'rtl' ? 40 : -40, 0])}px)`,
                     flexWrap: 'wrap'
                   }}
                 >
                   <AlertTriangle
                     size={Math.min(48, contentWidth / 30)}
-                    color={risk.severity === "high" ? "#f87171" : risk.severity === "medium" ? "#fbbf24" : "#4ade80"}
+                    color={risk.severity === "high" ? theme.semantic.negative : risk.severity === "medium" ? theme.semantic.warning : risk.severity === "low" ? theme.semantic.positive : theme.text.muted}
                     strokeWidth={2.5}
                   />
                   <div style={{ flex: 1, minWidth: '200px' }}>
                     <p style={{ 
                       fontSize: Math.min(32, contentWidth / 40), 
                       fontWeight: 'bold', 
-                      color: 'white',
+                      color: theme.text.primary,
                       marginBottom: '4px',
                       wordBreak: 'break-word'
                     }}>
@@ -419,7 +521,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                     </p>
                     <p style={{ 
                       fontSize: Math.min(22, contentWidth / 60), 
-                      color: '#9ca3af',
+                      color: theme.text.muted,
                       wordBreak: 'break-word'
                     }}>
                       {risk.mitigant}
@@ -458,8 +560,8 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                     display: 'flex', 
                     alignItems: 'center', 
                     justifyContent: 'space-between',
-                    backgroundColor: 'rgba(31, 41, 55, 0.7)', 
-                    border: '2px solid rgba(255, 255, 255, 0.15)', 
+                    backgroundColor: theme.surface, 
+                    border: `2px solid ${theme.border}`, 
                     borderRadius: '24px', 
                     padding: '24px 28px',
                     opacity: covenantFadeIn,
@@ -470,14 +572,14 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                 >
                   <div style={{ display: 'flex', alignItems: 'center', gap: '20px' }}>
                     {covenant.compliant ? (
-                      <CheckCircle size={Math.min(40, contentWidth / 35)} color="#4ade80" strokeWidth={2.5} />
+                      <CheckCircle size={Math.min(40, contentWidth / 35)} color={theme.semantic.positive} strokeWidth={2.5} />
                     ) : (
-                      <XCircle size={Math.min(40, contentWidth / 35)} color="#f87171" strokeWidth={2.5} />
+                      <XCircle size={Math.min(40, contentWidth / 35)} color={theme.semantic.negative} strokeWidth={2.5} />
                     )}
                     <span style={{ 
                       fontSize: Math.min(28, contentWidth / 45), 
                       fontWeight: '600', 
-                      color: 'white',
+                      color: theme.text.primary,
                       wordBreak: 'break-word'
                     }}>
                       {covenant.type}
@@ -485,7 +587,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                   </div>
                   <span style={{ 
                     fontSize: Math.min(22, contentWidth / 60), 
-                    color: '#9ca3af',
+                    color: theme.text.muted,
                     wordBreak: 'break-word'
                   }}>
                     {covenant.status}
@@ -502,6 +604,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
             key={index} 
             style={{ 
               display: 'flex', 
+              flexDirection: portrait ? 'column' : 'row',
               gap: '32px',
               justifyContent: 'center', 
               width: '100%',
@@ -510,9 +613,9 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
             }}
           >
             {[
-              { label: 'Environmental', icon: Leaf, score: (component as any).scores?.environmental, color: '#4ade80' },
-              { label: 'Social', icon: Users, score: (component as any).scores?.social, color: '#60a5fa' },
-              { label: 'Governance', icon: Building2, score: (component as any).scores?.governance, color: '#a78bfa' }
+              { label: strings.esg.environmental, icon: Leaf, score: (component as any).scores?.environmental, color: theme.esg.environmental },
+              { label: strings.esg.social, icon: Users, score: (component as any).scores?.social, color: theme.esg.social },
+              { label: strings.esg.governance, icon: Building2, score: (component as any).scores?.governance, color: theme.esg.governance }
             ].map((item, i) => {
               const esgFadeIn = spring({
                 frame: frame - (i * 6),
@@ -524,16 +627,16 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                 <div 
                   key={i} 
                   style={{ 
-                    backgroundColor: 'rgba(31, 41, 55, 0.7)', 
-                    border: '3px solid rgba(255, 255, 255, 0.15)', 
+                    backgroundColor: theme.surface, 
+                    border: `3px solid ${theme.border}`, 
                     borderRadius: '32px', 
                     padding: '36px 32px',
                     textAlign: 'center', 
-                    flex: '1 1 250px',
-                    maxWidth: '350px',
+                    flex: portrait ? 'none' : '1 1 250px',
+                    maxWidth: portrait ? 'none' : '350px',
                     minWidth: '200px',
                     opacity: esgFadeIn,
-                    transform: `translateY(${interpolate(esgFadeIn, [0, 1], [40, 0])}) scale(${esgFadeIn})`,
+                    transform: `translateY(${interpolate(esgFadeIn, [0, 1], [40, 0])}px) scale(${esgFadeIn})`,
                     position: 'relative',
                     overflow: 'hidden'
                   }}
@@ -551,7 +654,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                   </div>
                   <p style={{ 
                     fontSize: Math.min(24, contentWidth / 50), 
-                    color: '#9ca3af', 
+                    color: theme.text.muted, 
                     marginBottom: '12px',
                     fontWeight: '600'
                   }}>
@@ -560,9 +663,9 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                   <p style={{ 
                     fontSize: Math.min(64, contentWidth / 20), 
                     fontWeight: 'bold', 
-                    color: 'white'
+                    color: theme.text.primary
                   }}>
-                    {item.score || "N/A"}
+                    {item.score || strings.notAvailable}
                   </p>
                 </div>
               );
@@ -573,8 +676,8 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
       case "recommendation":
         const decision = typeof component.decision === 'string' ? component.decision : '';
         const decisionLower = decision.toLowerCase();
-        const decisionColor = decisionLower === "approve" ? "#4ade80" : decisionLower === "conditional" ? "#fbbf24" : "#f87171";
-        const decisionBg = decisionLower === "approve" ? "rgba(74, 222, 128, 0.15)" : decisionLower === "conditional" ? "rgba(251, 191, 36, 0.15)" : "rgba(248, 113, 113, 0.15)";
+        const decisionColor = decisionLower === "approve" ? theme.semantic.positive : decisionLower === "conditional" ? theme.semantic.warning : theme.semantic.negative;
+        const decisionBg = withAlpha(decisionColor, 0.15);
         
         return (
           <div 
@@ -599,15 +702,15 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
                 marginBottom: '48px',
                 color: decisionColor,
                 backgroundColor: decisionBg,
-                border: `3px solid ${decisionColor}44`,
+                border: `3px solid ${withAlpha(decisionColor, 0.27)}`,
                 transform: `scale(${scaleIn})`
               }}
             >
-              {decision.toUpperCase()}
+              {strings.decisions[decisionLower as keyof typeof strings.decisions] ?? decision.toLocaleUpperCase(locale.tag)}
             </div>
             <p style={{ 
               fontSize: Math.min(32, contentWidth / 35),
-              color: '#d1d5db', 
+              color: theme.text.body, 
               lineHeight: '1.7',
               padding: '0 60px',
               wordWrap: 'break-word'
@@ -622,7 +725,7 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
         );
 
       case "confidence_indicator":
-        const confColor = component.confidence === "HIGH" ? "#4ade80" : component.confidence === "MEDIUM" ? "#fbbf24" : "#f87171";
+        const confColor = component.confidence === "HIGH" ? theme.semantic.positive : component.confidence === "MEDIUM" ? theme.semantic.warning : theme.semantic.negative;
         return (
           <div 
             key={index} 
@@ -631,10 +734,10 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
               flexDirection: 'column', 
               alignItems: 'center', 
               gap: '20px',
-              backgroundColor: 'rgba(0, 0, 0, 0.6)', 
+              backgroundColor: theme.surfaceInset, 
               padding: '40px 36px',
               borderRadius: '36px',
-              border: '3px solid rgba(255, 255, 255, 0.15)', 
+              border: `3px solid ${theme.border}`, 
               width: '100%', 
               maxWidth: Math.min(900, maxContentWidth),
               opacity: itemFadeIn,
@@ -653,31 +756,31 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
               <span style={{ 
                 fontSize: Math.min(28, contentWidth / 40),
                 fontWeight: 'bold', 
-                color: 'rgba(255,255,255,0.8)', 
+                color: theme.text.body, 
                 letterSpacing: '2px'
               }}>
-                CONFIDENCE: {component.confidence}
+                {fillString(strings.confidence, { level: translateCode(strings.confidenceLevels, component.confidence) })}
               </span>
             </div>
             <div style={{ textAlign: 'center' }}>
               <p style={{ 
                 fontSize: Math.min(48, contentWidth / 25),
                 fontWeight: '900', 
-                color: component.status === "COMPLETE" ? "#4ade80" : "#f87171",
+                color: component.status === "COMPLETE" ? theme.semantic.positive : theme.semantic.negative,
                 letterSpacing: '-1px',
                 wordBreak: 'break-word'
               }}>
-                {component.status?.replace("_", " ")}
+                {component.status && translateCode(strings.statuses, component.status).replace("_", " ")}
               </p>
               {component.source && (
                 <p style={{ 
                   fontSize: Math.min(22, contentWidth / 60),
-                  color: 'rgba(255,255,255,0.4)', 
+                  color: theme.text.faint, 
                   marginTop: '16px',
                   fontStyle: 'italic',
                   wordBreak: 'break-word'
                 }}>
-                  Provenance: {component.source}
+                  {fillString(strings.provenance, { source: component.source })}
                 </p>
               )}
             </div>
@@ -689,198 +792,218 @@ export const Scene: React.FC<SceneProps> = ({ scene, analysis }) => {
     }
   };
 
+  const renderSlot = (slot: LayoutSlot) => {
+    const placed = slot.components;
+    const groupedElements: React.ReactNode[] = [];
+    let i = 0;
+
+    while (i < placed.length) {
+      const current = placed[i];
+      
+      // Check if this is a data_card and if there are consecutive data_cards
+      if (current.component.type === 'data_card') {
+        const dataCards: PlacedComponent[] = [current];
+        let j = i + 1;
+        
+        // Collect consecutive data_cards
+        while (j < placed.length && placed[j].component.type === 'data_card') {
+          dataCards.push(placed[j]);
+          j++;
+        }
+        
+        // Render all data_cards in a horizontal container (stacked in portrait)
+        groupedElements.push(
+          <div 
+            key={`data-cards-${current.index}`}
+            style={{ 
+              display: 'flex', 
+              flexDirection: portrait ? 'column' : 'row',
+              gap: portrait ? '24px' : '32px',
+              justifyContent: 'center', 
+              width: '100%',
+              flexWrap: 'wrap',
+              padding: '0 20px'
+            }}
+          >
+            {dataCards.map((card) => renderComponent(card.component, card.index, slot))}
+          </div>
+        );
+        
+        i = j; // Skip past all the data_cards we just processed
+      } else {
+        // Render other component types normally
+        groupedElements.push(
+          <React.Fragment key={current.index}>
+            {renderComponent(current.component, current.index, slot)}
+          </React.Fragment>
+        );
+        i++;
+      }
+    }
+    
+    return groupedElements;
+  };
+
   return (
     <AbsoluteFill 
       style={{ 
-        backgroundColor: '#0f172a', 
-        color: 'white',
+        backgroundColor: theme.background, 
+        color: theme.text.primary,
+        fontFamily: theme.typography.fontFamily,
         overflow: 'hidden',
         position: 'relative'
       }}
     >
-      {/* Background Decor */}
-      <div style={{ position: 'absolute', inset: 0, opacity: 0.1, pointerEvents: 'none' }}>
-        <div style={{ 
-          position: 'absolute', 
-          top: 0, 
-          right: 0, 
-          width: '1000px', 
-          height: '1000px', 
-          backgroundColor: '#3b82f6', 
-          borderRadius: '50%', 
-          filter: 'blur(200px)', 
-          transform: 'translate(40%, -40%)' 
-        }} />
-        <div style={{ 
-          position: 'absolute', 
-          bottom: 0, 
-          left: 0, 
-          width: '800px', 
-          height: '800px', 
-          backgroundColor: '#4f46e5', 
-          borderRadius: '50%', 
-          filter: 'blur(150px)', 
-          transform: 'translate(-30%, 30%)' 
-        }} />
-      </div>
-
-      {/* Safe Content Area */}
-      <div 
-        style={{ 
+      <div
+        style={{
           position: 'absolute',
-          top: SAFE_AREA_PADDING.top,
-          left: SAFE_AREA_PADDING.left,
-          right: SAFE_AREA_PADDING.right,
-          bottom: SAFE_AREA_PADDING.bottom,
-          display: 'flex', 
-          flexDirection: 'column',
-          alignItems: 'center',
-          justifyContent: 'center',
-          zIndex: 10
+          top: 0,
+          left: 0,
+          width,
+          height,
+          transform: `scale(${canvas.scale})`,
+          transformOrigin: 'top left'
         }}
       >
-        <div 
-          style={{ 
-            width: '100%',
-            height: '100%',
-            display: 'flex', 
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-            gap: '36px',
-            opacity: fadeIn,
-            transform: `translateY(${slideUp}px)`
-          }}
-        >
-          {(() => {
-            const components = scene?.visuals?.components || [];
-            const groupedElements: React.ReactNode[] = [];
-            let i = 0;
-
-            while (i < components.length) {
-              const currentComp = components[i];
-              
-              // Check if this is a data_card and if there are consecutive data_cards
-              if (currentComp.type === 'data_card') {
-                const dataCards: typeof components = [currentComp];
-                let j = i + 1;
-                
-                // Collect consecutive data_cards
-                while (j < components.length && components[j].type === 'data_card') {
-                  dataCards.push(components[j]);
-                  j++;
-                }
-                
-                // Render all data_cards in a horizontal container
-                groupedElements.push(
-                  <div 
-                    key={`data-cards-${i}`}
-                    style={{ 
-                      display: 'flex', 
-                      gap: '32px',
-                      justifyContent: 'center', 
-                      width: '100%',
-                      flexWrap: 'wrap',
-                      padding: '0 20px'
-                    }}
-                  >
-                    {dataCards.map((card, cardIdx) => renderComponent(card, i + cardIdx))}
-                  </div>
-                );
-                
-                i = j; // Skip past all the data_cards we just processed
-              } else {
-                // Render other component types normally
-                groupedElements.push(
-                  <React.Fragment key={i}>
-                    {renderComponent(currentComp, i)}
-                  </React.Fragment>
-                );
-                i++;
-              }
-            }
-            
-            return groupedElements;
-          })()}
+        {/* Background Decor */}
+        <div style={{ position: 'absolute', inset: 0, opacity: theme.decor.opacity, pointerEvents: 'none' }}>
+          <div style={{ 
+            position: 'absolute', 
+            top: 0, 
+            right: 0, 
+            width: '1000px', 
+            height: '1000px', 
+            backgroundColor: theme.decor.glows[0], 
+            borderRadius: '50%', 
+            filter: 'blur(200px)', 
+            transform: 'translate(40%, -40%)' 
+          }} />
+          <div style={{ 
+            position: 'absolute', 
+            bottom: 0, 
+            left: 0, 
+            width: '800px', 
+            height: '800px', 
+            backgroundColor: theme.decor.glows[1], 
+            borderRadius: '50%', 
+            filter: 'blur(150px)', 
+            transform: 'translate(-30%, 30%)' 
+          }} />
         </div>
-      </div>
 
-      {/* Captions - Always visible at bottom in safe area */}
-      {scene?.narration?.text && (
+        {/* Safe Content Area */}
         <div 
           style={{ 
             position: 'absolute',
-            bottom: SAFE_AREA_PADDING.bottom + 20,
-            left: SAFE_AREA_PADDING.left + 40,
-            right: SAFE_AREA_PADDING.right + 40,
-            borderRadius: '16px',
-            padding: '24px 40px',
-            borderTop: '2px solid rgba(99, 102, 241, 0.4)',
-            zIndex: 100,
-            opacity: fadeIn,
-            maxHeight: '180px',
-            overflow: 'hidden',
-            display: 'flex',
+            top: safeAreaPadding.top,
+            left: safeAreaPadding.left,
+            right: safeAreaPadding.right,
+            bottom: safeAreaPadding.bottom,
+            display: 'flex', 
+            flexDirection: 'column',
             alignItems: 'center',
-            justifyContent: 'center'
+            justifyContent: 'center',
+            zIndex: 10
           }}
         >
-          <p 
+          <div 
             style={{ 
-              fontSize: Math.min(32, contentWidth / 35),
-              color: '#e5e7eb',
-              textAlign: 'center',
-              lineHeight: '1.5',
-              fontWeight: '500',
-              wordWrap: 'break-word',
-              margin: 0
+              position: 'relative',
+              width: '100%',
+              height: '100%',
+              opacity: fadeIn,
+              transform: `translateY(${slideUp}px)`
             }}
           >
-            "{scene.narration.text}"
-          </p>
+            {plan.slots.map((slot) => (
+              <div
+                key={slot.name}
+                style={{
+                  position: 'absolute',
+                  // Logical inset, so layouts mirror in RTL locales
+                  insetInlineStart: slot.box.left,
+                  top: slot.box.top,
+                  width: slot.box.width,
+                  height: slot.box.height,
+                  paddingTop: slot.insetTop,
+                  boxSizing: 'border-box',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  justifyContent: slot.bleed ? 'flex-start' : 'center',
+                  gap: '36px',
+                  zIndex: slot.bleed ? 0 : 1
+                }}
+              >
+                {renderSlot(slot)}
+              </div>
+            ))}
+          </div>
         </div>
-      )}
 
-      {/* Branding - Safe area bottom-right */}
-      <div 
-        style={{ 
-          position: 'absolute', 
-          bottom: SAFE_AREA_PADDING.bottom - 30,
-          right: SAFE_AREA_PADDING.right,
-          display: 'flex', 
-          alignItems: 'center',
-          gap: '12px',
-          opacity: 0.7,
-          zIndex: 50
-        }}
-      >
-        <div 
-          style={{ 
-            width: '52px', 
-            height: '52px',
-            borderRadius: '14px',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-          }}
-        >
-          <img 
-            src={staticFile("/images/logo.png")} 
-            alt="Loanie" 
-            style={{ width: '36px', height: '36px', objectFit: 'contain' }} 
+        {/* Captions - word-by-word when timings are available */}
+        {scene?.narration?.text && (
+          <Captions
+            text={scene.narration.text}
+            captions={scene.narration.captions}
+            style={captionStyle}
+            safeArea={safeAreaPadding}
+            contentWidth={contentWidth}
+            opacity={fadeIn}
           />
-        </div>
-        <span 
-          style={{ 
-            fontSize: '32px',
-            fontWeight: '900', 
-            letterSpacing: '-1px',
-            color: 'white',
-            fontFamily: 'system-ui'
-          }}
-        >
-          LOANIE
-        </span>
+        )}
+
+        {/* Branding - Safe area bottom-right (bottom-left in RTL) */}
+        {(logo || wordmark) && (
+          <div 
+            style={{ 
+              position: 'absolute', 
+              bottom: safeAreaPadding.bottom - 30,
+              insetInlineEnd: safeAreaPadding.right,
+              display: 'flex', 
+              alignItems: 'center',
+              gap: '12px',
+              opacity: 0.7,
+              zIndex: 50
+            }}
+          >
+            {logo && (
+              <div 
+                style={{ 
+                  width: '52px', 
+                  height: '52px',
+                  borderRadius: '14px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                }}
+              >
+                <Img 
+                  src={logo} 
+                  alt={wordmark || strings.logo} 
+                  onError={() => {
+                    console.warn(`⚠️ Logo failed to load: ${logo}`);
+                    setLogoFailed(true);
+                  }}
+                  style={{ width: '36px', height: '36px', objectFit: 'contain' }} 
+                />
+              </div>
+            )}
+            {wordmark && (
+              <span 
+                style={{ 
+                  fontSize: '32px',
+                  fontWeight: '900', 
+                  letterSpacing: '-1px',
+                  color: theme.text.primary,
+                  fontFamily: theme.typography.brandFontFamily
+                }}
+              >
+                {wordmark}
+              </span>
+            )}
+          </div>
+        )}
       </div>
     </AbsoluteFill>
   );
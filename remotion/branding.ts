@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { continueRender, delayRender, staticFile } from 'remotion';
+import { getAvailableFonts } from '@remotion/google-fonts';
+import { loadFont } from '@remotion/fonts';
+import { Branding, BrandFont } from './types';
+import { Theme, withAlpha } from './themes';
+
+export const DEFAULT_LOGO = '/images/logo.png';
+export const DEFAULT_WORDMARK = 'LOANIE';
+
+// Brand colours and font layered over the selected theme
+export const applyBranding = (theme: Theme, branding?: Branding | null): Theme => {
+  if (!branding) return theme;
+
+  const primary = branding.primaryColor;
+  const accent = branding.accentColor;
+  const fontFamily = branding.font?.family;
+
+  return {
+    ...theme,
+    accent: primary || theme.accent,
+    accentText: primary || theme.accentText,
+    typography: fontFamily
+      ? {
+          fontFamily: `'${fontFamily}', ${theme.typography.fontFamily || 'sans-serif'}`,
+          brandFontFamily: `'${fontFamily}', ${theme.typography.brandFontFamily}`
+        }
+      : theme.typography,
+    decor: {
+      ...theme.decor,
+      glows: [primary || theme.decor.glows[0], accent || theme.decor.glows[1]]
+    },
+    captions: accent
+      ? { ...theme.captions, highlight: accent, border: withAlpha(accent, 0.4) }
+      : theme.captions,
+    charts: {
+      ...theme.charts,
+      series: [
+        ...[primary, accent].filter((color): color is string => Boolean(color)),
+        ...theme.charts.series
+      ]
+    }
+  };
+};
+
+export const logoSource = (branding?: Branding | null): string | null => {
+  if (branding?.logo === null) return null;
+  if (branding?.logo?.url) return branding.logo.url;
+  return staticFile(branding?.logo?.asset || DEFAULT_LOGO);
+};
+
+export const wordmarkText = (branding?: Branding | null): string | null => {
+  if (branding?.wordmark === null) return null;
+  return branding?.wordmark ?? DEFAULT_WORDMARK;
+};
+
+const loadBrandFont = async (font: BrandFont) => {
+  if (font.source === 'google') {
+    const entry = getAvailableFonts().find((f) => f.fontFamily === font.family);
+    if (!entry) throw new Error(`Google font "${font.family}" not found`);
+    const googleFont = await entry.load();
+    await googleFont.loadFont('normal', font.weights ? { weights: font.weights } : undefined).waitUntilDone();
+  } else if (font.source === 'local') {
+    if (!font.file) throw new Error(`Local font "${font.family}" has no file`);
+    const url = /^https?:\/\//.test(font.file) ? font.file : staticFile(font.file);
+    const weights = font.weights?.length ? font.weights : ['400'];
+    await Promise.all(weights.map((weight) => loadFont({ family: font.family, url, weight })));
+  }
+};
+
+// Holds the render until the brand font is ready; falls back to the theme font on failure
+export const useBrandFont = (font?: BrandFont) => {
+  const [handle] = useState(() => (font && font.source !== 'system' ? delayRender(`Loading font ${font.family}`) : null));
+
+  useEffect(() => {
+    if (!font || handle === null) return;
+    loadBrandFont(font)
+      .catch((err) => console.warn(`⚠️ Brand font failed to load: ${err.message}`))
+      .finally(() => continueRender(handle));
+  }, [font, handle]);
+};
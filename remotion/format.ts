@@ -0,0 +1,37 @@
+import { DEFAULT_LOCALE } from './i18n';
+
+// Units are a leading currency symbol and/or a suffix: "$m" -> "$12.5M", "%" -> "12.5%",
+// "x" -> "3.25x". Digits, separators and symbol placement follow the locale ("12,5 M $US" in fr-FR).
+// Must match CURRENCY_SYMBOLS in server/locale.js
+const CURRENCY_SYMBOLS: Record<string, string> = { $: 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+// Scale suffixes: "$m" is millions of dollars, shown in compact notation
+const SCALES: Record<string, number> = { k: 1e3, m: 1e6, mm: 1e6, bn: 1e9, b: 1e9 };
+
+interface FormatOptions {
+  compact?: boolean;
+  signed?: boolean;
+  locale?: string;
+}
+
+export const formatNumber = (
+  value: number,
+  unit = '',
+  { compact = false, signed = false, locale = DEFAULT_LOCALE }: FormatOptions = {}
+): string => {
+  const currency = CURRENCY_SYMBOLS[unit.charAt(0)];
+  const suffix = currency ? unit.slice(1) : unit;
+  const scale = SCALES[suffix.toLowerCase()];
+  const percent = suffix === '%';
+  const digits = Math.abs(value) < 10 ? 2 : 1;
+
+  const formatted = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: digits,
+    notation: compact || scale ? 'compact' : 'standard',
+    signDisplay: signed ? 'exceptZero' : 'auto',
+    ...(currency ? { style: 'currency', currency } : percent ? { style: 'percent' } : {})
+  }).format(scale ? value * scale : percent ? value / 100 : value);
+
+  // Units Intl has no notation for, e.g. "x" multiples, follow the number
+  return scale || percent || !suffix ? formatted : `${formatted}${suffix}`;
+};
@@ -0,0 +1,102 @@
+import { createContext, useContext } from 'react';
+
+// Text drawn by the template itself (labels, badges); scene content comes from the manifest.
+// `{level}` and `{source}` are filled in where the string is used.
+export interface UiStrings {
+  confidence: string;
+  provenance: string;
+  notAvailable: string;
+  logo: string;
+  esg: { environmental: string; social: string; governance: string };
+  decisions: Record<'approve' | 'conditional' | 'decline', string>;
+  confidenceLevels: Record<'LOW' | 'MEDIUM' | 'HIGH', string>;
+  statuses: Record<'COMPLETE' | 'INSUFFICIENT_DATA', string>;
+}
+
+const en: UiStrings = {
+  confidence: 'CONFIDENCE: {level}',
+  provenance: 'Provenance: {source}',
+  notAvailable: 'N/A',
+  logo: 'Logo',
+  esg: { environmental: 'Environmental', social: 'Social', governance: 'Governance' },
+  decisions: { approve: 'APPROVE', conditional: 'CONDITIONAL', decline: 'DECLINE' },
+  confidenceLevels: { LOW: 'LOW', MEDIUM: 'MEDIUM', HIGH: 'HIGH' },
+  statuses: { COMPLETE: 'COMPLETE', INSUFFICIENT_DATA: 'INSUFFICIENT DATA' }
+};
+
+const es: UiStrings = {
+  confidence: 'CONFIANZA: {level}',
+  provenance: 'Procedencia: {source}',
+  notAvailable: 'N/D',
+  logo: 'Logotipo',
+  esg: { environmental: 'Ambiental', social: 'Social', governance: 'Gobernanza' },
+  decisions: { approve: 'APROBAR', conditional: 'CONDICIONAL', decline: 'RECHAZAR' },
+  confidenceLevels: { LOW: 'BAJA', MEDIUM: 'MEDIA', HIGH: 'ALTA' },
+  statuses: { COMPLETE: 'COMPLETO', INSUFFICIENT_DATA: 'DATOS INSUFICIENTES' }
+};
+
+const fr: UiStrings = {
+  confidence: 'CONFIANCE : {level}',
+  provenance: 'Provenance : {source}',
+  notAvailable: 'N/D',
+  logo: 'Logo',
+  esg: { environmental: 'Environnement', social: 'Social', governance: 'Gouvernance' },
+  decisions: { approve: 'APPROUVER', conditional: 'SOUS CONDITIONS', decline: 'REFUSER' },
+  confidenceLevels: { LOW: 'FAIBLE', MEDIUM: 'MOYENNE', HIGH: 'ÉLEVÉE' },
+  statuses: { COMPLETE: 'COMPLET', INSUFFICIENT_DATA: 'DONNÉES INSUFFISANTES' }
+};
+
+const ar: UiStrings = {
+  confidence: 'الثقة: {level}',
+  provenance: 'المصدر: {source}',
+  notAvailable: 'غير متوفر',
+  logo: 'الشعار',
+  esg: { environmental: 'البيئة', social: 'المجتمع', governance: 'الحوكمة' },
+  decisions: { approve: 'موافقة', conditional: 'موافقة مشروطة', decline: 'رفض' },
+  confidenceLevels: { LOW: 'منخفضة', MEDIUM: 'متوسطة', HIGH: 'عالية' },
+  statuses: { COMPLETE: 'مكتمل', INSUFFICIENT_DATA: 'بيانات غير كافية' }
+};
+
+// Keyed by language; must match UI_LANGUAGES in server/locale.js
+export const UI_STRINGS: Record<string, UiStrings> = { en, es, fr, ar };
+
+// Must match DEFAULT_LOCALE in server/locale.js
+export const DEFAULT_LOCALE = 'en-US';
+
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur'];
+
+export interface Locale {
+  // BCP 47 tag used for Intl formatting, e.g. "es-MX"
+  tag: string;
+  language: string;
+  direction: 'ltr' | 'rtl';
+  strings: UiStrings;
+}
+
+// Languages without a bundle use the English strings but keep their own formatting and direction
+export const resolveLocale = (tag?: string): Locale => {
+  let canonical = DEFAULT_LOCALE;
+  try {
+    if (tag) canonical = Intl.getCanonicalLocales(tag)[0];
+  } catch {
+    console.warn(`⚠️ Invalid locale "${tag}", falling back to ${DEFAULT_LOCALE}`);
+  }
+  const language = canonical.split('-')[0].toLowerCase();
+  return {
+    tag: canonical,
+    language,
+    direction: RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr',
+    strings: UI_STRINGS[language] || en
+  };
+};
+
+// "CONFIDENCE: {level}" + { level: "HIGH" } -> "CONFIDENCE: HIGH"
+export const fillString = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+
+// Translates a known code such as "HIGH"; anything else is returned as given
+export const translateCode = (table: Record<string, string>, code: string): string => table[code] ?? code;
+
+export const LocaleContext = createContext<Locale>(resolveLocale());
+
+export const useLocale = () => useContext(LocaleContext);
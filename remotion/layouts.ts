@@ -0,0 +1,202 @@
+import { VisualComponent } from './types';
+import { Dimensions } from './resolution';
+
+// Names must match LAYOUTS in server/manifestValidator.js
+export const LAYOUTS = ['centered', 'split', 'grid-2x2', 'hero-with-sidebar', 'title-over-full-bleed-chart'];
+
+export const DEFAULT_LAYOUT = 'centered';
+
+// Slot rules group components by role
+// Must match CHART_TYPES and HEADING_TYPES in server/manifestValidator.js
+export const CHART_TYPES = ['bar_chart', 'line_chart', 'area_chart', 'waterfall', 'donut'];
+const HEADING_TYPES = ['title', 'subtitle'];
+// hero-with-sidebar picks the first of these as the hero, in component order
+const HERO_TYPES = [...CHART_TYPES, 'metric_card', 'recommendation', 'confidence_indicator'];
+
+// Approximate rendered heights of heading components, in canvas pixels
+const HEADING_HEIGHTS: Record<string, number> = { title: 140, subtitle: 80 };
+const MAX_HEADER_SHARE = 0.4;
+const GAP = 36;
+const GRID_CELLS = 4;
+const HERO_SHARE = 0.62;
+
+export interface SlotBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PlacedComponent {
+  component: VisualComponent;
+  // Position in the scene's component list, drives the stagger animation
+  index: number;
+}
+
+export interface LayoutSlot {
+  name: string;
+  box: SlotBox;
+  components: PlacedComponent[];
+  // Full-bleed slots cover the whole frame; content starts `insetTop` below its top edge
+  bleed?: boolean;
+  insetTop?: number;
+}
+
+export interface LayoutPlan {
+  layout: string;
+  slots: LayoutSlot[];
+}
+
+// Unknown names are reported by the manifest validator
+export const getLayout = (name?: string): string =>
+  name && LAYOUTS.includes(name) ? name : DEFAULT_LAYOUT;
+
+const isChart = (placed: PlacedComponent) => CHART_TYPES.includes(placed.component.type);
+
+const headerHeight = (headings: PlacedComponent[], area: Dimensions) =>
+  Math.min(
+    area.height * MAX_HEADER_SHARE,
+    headings.reduce((acc, { component }) => acc + (HEADING_HEIGHTS[component.type] || 0), 0)
+  );
+
+// Splits `box` in two along its long axis (side by side in landscape, stacked in portrait)
+const splitBox = (box: SlotBox, share: number, portrait: boolean): [SlotBox, SlotBox] => {
+  if (portrait) {
+    const first = (box.height - GAP) * share;
+    return [
+      { ...box, height: first },
+      { ...box, top: box.top + first + GAP, height: box.height - first - GAP }
+    ];
+  }
+  const first = (box.width - GAP) * share;
+  return [
+    { ...box, width: first },
+    { ...box, left: box.left + first + GAP, width: box.width - first - GAP }
+  ];
+};
+
+// Two columns in landscape; in portrait the cells stack in a single column
+const gridCells = (box: SlotBox, count: number, portrait: boolean): SlotBox[] => {
+  const columns = portrait ? 1 : 2;
+  const rows = Math.ceil(count / columns);
+  const cellWidth = (box.width - GAP * (columns - 1)) / columns;
+  const cellHeight = (box.height - GAP * (rows - 1)) / rows;
+  return Array.from({ length: count }, (_, i) => {
+    // An odd last cell spans the full row
+    const spans = i === count - 1 && count % columns === 1;
+    return {
+      left: box.left + (i % columns) * (cellWidth + GAP),
+      top: box.top + Math.floor(i / columns) * (cellHeight + GAP),
+      width: spans ? box.width : cellWidth,
+      height: cellHeight
+    };
+  });
+};
+
+/**
+ * Assigns a scene's components to positioned slots within the safe content area.
+ * Boxes are relative to that area; `frame` is the full canvas, used by full-bleed slots.
+ * Layouts that cannot be honoured with the given components fall back to `centered`;
+ * the manifest validator warns about those.
+ */
+export const planLayout = (
+  name: string | undefined,
+  components: VisualComponent[],
+  area: Dimensions,
+  frame: SlotBox,
+  portrait: boolean
+): LayoutPlan => {
+  const layout = getLayout(name);
+  const placed = components.map((component, index) => ({ component, index })).filter(({ component }) => component);
+  const full: SlotBox = { left: 0, top: 0, width: area.width, height: area.height };
+  const centered: LayoutPlan = { layout: DEFAULT_LAYOUT, slots: [{ name: 'main', box: full, components: placed }] };
+
+  const headings = placed.filter(({ component }) => HEADING_TYPES.includes(component.type));
+  const body = placed.filter((p) => !headings.includes(p));
+
+  if (layout === DEFAULT_LAYOUT || body.length === 0) return centered;
+
+  const header = headerHeight(headings, area);
+  const headerSlot: LayoutSlot[] = headings.length > 0
+    ? [{ name: 'header', box: { ...full, height: header }, components: headings }]
+    : [];
+  const bodyBox: SlotBox = headings.length > 0
+    ? { left: 0, top: header + GAP, width: area.width, height: area.height - header - GAP }
+    : full;
+
+  switch (layout) {
+    case 'split': {
+      // Text left, charts right
+      const text = body.filter((p) => !isChart(p));
+      const charts = body.filter(isChart);
+      if (text.length === 0 || charts.length === 0) return centered;
+      const [left, right] = splitBox(bodyBox, 0.5, portrait);
+      return {
+        layout,
+        slots: [
+          ...headerSlot,
+          { name: 'left', box: left, components: text },
+          { name: 'right', box: right, components: charts }
+        ]
+      };
+    }
+
+    case 'grid-2x2': {
+      // One component per cell; anything past the fourth shares the last cell
+      const count = Math.min(GRID_CELLS, body.length);
+      const cells = gridCells(bodyBox, count, portrait);
+      return {
+        layout,
+        slots: [
+          ...headerSlot,
+          ...cells.map((box, i) => ({
+            name: `cell-${i + 1}`,
+            box,
+            components: i === count - 1 ? body.slice(i) : [body[i]]
+          }))
+        ]
+      };
+    }
+
+    case 'hero-with-sidebar': {
+      const hero = body.find((p) => HERO_TYPES.includes(p.component.type)) || body[0];
+      const sidebar = body.filter((p) => p !== hero);
+      if (sidebar.length === 0) {
+        return { layout, slots: [...headerSlot, { name: 'hero', box: bodyBox, components: [hero] }] };
+      }
+      const [heroBox, sidebarBox] = splitBox(bodyBox, HERO_SHARE, portrait);
+      return {
+        layout,
+        slots: [
+          ...headerSlot,
+          { name: 'hero', box: heroBox, components: [hero] },
+          { name: 'sidebar', box: sidebarBox, components: sidebar }
+        ]
+      };
+    }
+
+    case 'title-over-full-bleed-chart': {
+      const chart = body.find(isChart);
+      if (!chart) return centered;
+      // Headings and any other components sit over the top of the chart
+      const overlay = placed.filter((p) => p !== chart);
+      const overlayHeight = body.length > 1 ? area.height * MAX_HEADER_SHARE : header;
+      return {
+        layout,
+        slots: [
+          {
+            name: 'background',
+            box: frame,
+            components: [chart],
+            bleed: true,
+            insetTop: -frame.top + overlayHeight + GAP
+          },
+          ...(overlay.length > 0 ? [{ name: 'overlay', box: { ...full, height: overlayHeight }, components: overlay }] : [])
+        ]
+      };
+    }
+
+    default:
+      return centered;
+  }
+};
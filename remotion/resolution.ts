@@ -0,0 +1,50 @@
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+// Names must match RESOLUTION_PRESETS in server/manifestValidator.js
+export const RESOLUTION_PRESETS: Record<string, Dimensions> = {
+  '16:9': { width: 1920, height: 1080 },
+  '9:16': { width: 1080, height: 1920 },
+  '1:1': { width: 1080, height: 1080 },
+  '4K': { width: 3840, height: 2160 }
+};
+
+export const DEFAULT_RESOLUTION = RESOLUTION_PRESETS['16:9'];
+
+// Accepts a preset name or "WIDTHxHEIGHT"; anything else falls back to 1920x1080
+export const parseResolution = (value?: string): Dimensions => {
+  if (!value) return DEFAULT_RESOLUTION;
+  const preset = Object.keys(RESOLUTION_PRESETS).find((name) => name.toLowerCase() === value.trim().toLowerCase());
+  if (preset) return RESOLUTION_PRESETS[preset];
+
+  const match = value.trim().match(/^(\d+)x(\d+)$/i);
+  if (match && Number(match[1]) > 0 && Number(match[2]) > 0) {
+    return { width: Number(match[1]), height: Number(match[2]) };
+  }
+  console.warn(`⚠️ Unknown resolution "${value}", falling back to ${DEFAULT_RESOLUTION.width}x${DEFAULT_RESOLUTION.height}`);
+  return DEFAULT_RESOLUTION;
+};
+
+// Scenes are laid out on a canvas whose short side is 1080px and then scaled to the output,
+// so padding, type and charts keep their proportions at 720p, 4K or 9:16 alike
+const LAYOUT_SHORT_SIDE = 1080;
+
+export interface LayoutCanvas extends Dimensions {
+  scale: number;
+  portrait: boolean;
+}
+
+export const layoutCanvas = (width: number, height: number): LayoutCanvas => {
+  const scale = Math.min(width, height) / LAYOUT_SHORT_SIDE;
+  return { width: width / scale, height: height / scale, scale, portrait: height > width };
+};
+
+// Safe area boundaries: 5% padding on all sides
+export const safeArea = ({ width, height }: Dimensions) => ({
+  top: height * 0.05,
+  bottom: height * 0.05,
+  left: width * 0.05,
+  right: width * 0.05
+});
@@ -0,0 +1,219 @@
+import { createContext, useContext } from 'react';
+
+export interface Theme {
+  name: string;
+  background: string;
+  // Cards, rows and panels
+  surface: string;
+  surfaceStrong: string;
+  surfaceInset: string;
+  border: string;
+  text: {
+    primary: string;
+    secondary: string;
+    muted: string;
+    body: string;
+    faint: string;
+  };
+  accent: string;
+  accentText: string;
+  semantic: {
+    positive: string;
+    negative: string;
+    warning: string;
+    neutral: string;
+  };
+  esg: {
+    environmental: string;
+    social: string;
+    governance: string;
+  };
+  typography: {
+    // Unset keeps the renderer's default face
+    fontFamily?: string;
+    brandFontFamily: string;
+  };
+  decor: {
+    glows: [string, string];
+    opacity: number;
+    shape: string;
+  };
+  captions: {
+    text: string;
+    highlight: string;
+    border: string;
+  };
+  charts: {
+    // Series colours, used in order
+    series: string[];
+    grid: string;
+  };
+}
+
+const institutionalDark: Theme = {
+  name: 'institutional-dark',
+  background: '#0f172a',
+  surface: 'rgba(31, 41, 55, 0.7)',
+  surfaceStrong: 'rgba(31, 41, 55, 0.8)',
+  surfaceInset: 'rgba(0, 0, 0, 0.6)',
+  border: 'rgba(255, 255, 255, 0.15)',
+  text: {
+    primary: '#ffffff',
+    secondary: '#94a3b8',
+    muted: '#9ca3af',
+    body: '#d1d5db',
+    faint: 'rgba(255, 255, 255, 0.4)'
+  },
+  accent: '#3b82f6',
+  accentText: '#60a5fa',
+  semantic: {
+    positive: '#4ade80',
+    negative: '#f87171',
+    warning: '#fbbf24',
+    neutral: '#9ca3af'
+  },
+  esg: {
+    environmental: '#4ade80',
+    social: '#60a5fa',
+    governance: '#a78bfa'
+  },
+  typography: {
+    brandFontFamily: 'system-ui'
+  },
+  decor: {
+    glows: ['#3b82f6', '#4f46e5'],
+    opacity: 0.1,
+    shape: '#ffffff'
+  },
+  captions: {
+    text: '#e5e7eb',
+    highlight: '#60a5fa',
+    border: 'rgba(99, 102, 241, 0.4)'
+  },
+  charts: {
+    series: ['#3b82f6', '#4ade80', '#fbbf24', '#a78bfa', '#f87171', '#22d3ee'],
+    grid: 'rgba(255, 255, 255, 0.08)'
+  }
+};
+
+const institutionalLight: Theme = {
+  name: 'institutional-light',
+  background: '#f8fafc',
+  surface: 'rgba(255, 255, 255, 0.85)',
+  surfaceStrong: 'rgba(255, 255, 255, 0.95)',
+  surfaceInset: 'rgba(241, 245, 249, 0.95)',
+  border: 'rgba(15, 23, 42, 0.12)',
+  text: {
+    primary: '#0f172a',
+    secondary: '#475569',
+    muted: '#64748b',
+    body: '#334155',
+    faint: 'rgba(15, 23, 42, 0.45)'
+  },
+  accent: '#2563eb',
+  accentText: '#1d4ed8',
+  semantic: {
+    positive: '#15803d',
+    negative: '#dc2626',
+    warning: '#b45309',
+    neutral: '#64748b'
+  },
+  esg: {
+    environmental: '#15803d',
+    social: '#1d4ed8',
+    governance: '#6d28d9'
+  },
+  typography: {
+    brandFontFamily: 'system-ui'
+  },
+  decor: {
+    glows: ['#93c5fd', '#a5b4fc'],
+    opacity: 0.35,
+    shape: '#0f172a'
+  },
+  captions: {
+    text: '#1e293b',
+    highlight: '#1d4ed8',
+    border: 'rgba(37, 99, 235, 0.35)'
+  },
+  charts: {
+    series: ['#2563eb', '#15803d', '#b45309', '#6d28d9', '#dc2626', '#0e7490'],
+    grid: 'rgba(15, 23, 42, 0.08)'
+  }
+};
+
+// Maximum contrast for projectors and accessibility reviews: no translucency, no glow
+const highContrast: Theme = {
+  name: 'high-contrast',
+  background: '#000000',
+  surface: '#000000',
+  surfaceStrong: '#000000',
+  surfaceInset: '#000000',
+  border: '#ffffff',
+  text: {
+    primary: '#ffffff',
+    secondary: '#ffffff',
+    muted: '#f5f5f5',
+    body: '#ffffff',
+    faint: '#e5e5e5'
+  },
+  accent: '#ffd400',
+  accentText: '#ffd400',
+  semantic: {
+    positive: '#00ff66',
+    negative: '#ff5c5c',
+    warning: '#ffd400',
+    neutral: '#ffffff'
+  },
+  esg: {
+    environmental: '#00ff66',
+    social: '#00d8ff',
+    governance: '#ffd400'
+  },
+  typography: {
+    fontFamily: 'Arial, Helvetica, sans-serif',
+    brandFontFamily: 'Arial, Helvetica, sans-serif'
+  },
+  decor: {
+    glows: ['#000000', '#000000'],
+    opacity: 0,
+    shape: '#ffffff'
+  },
+  captions: {
+    text: '#ffffff',
+    highlight: '#ffd400',
+    border: '#ffffff'
+  },
+  charts: {
+    series: ['#ffd400', '#00d8ff', '#00ff66', '#ff5c5c', '#ffffff', '#ff9f1c'],
+    grid: '#808080'
+  }
+};
+
+// Names must match THEMES in server/manifestValidator.js
+export const THEMES: Record<string, Theme> = {
+  [institutionalDark.name]: institutionalDark,
+  [institutionalLight.name]: institutionalLight,
+  [highContrast.name]: highContrast
+};
+
+export const DEFAULT_THEME = institutionalDark;
+
+export const getTheme = (name?: string): Theme => {
+  if (name && THEMES[name]) return THEMES[name];
+  if (name) console.warn(`⚠️ Unknown theme "${name}", falling back to ${DEFAULT_THEME.name}`);
+  return DEFAULT_THEME;
+};
+
+// "#4ade80" + 0.15 -> "rgba(74, 222, 128, 0.15)"; non-hex colours are returned unchanged
+export const withAlpha = (color: string, alpha: number): string => {
+  const match = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return color;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, (c) => c + c) : match[1];
+  const value = parseInt(hex, 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+export const ThemeContext = createContext<Theme>(DEFAULT_THEME);
+
+export const useTheme = () => useContext(ThemeContext);
@@ -0,0 +1,95 @@
+import React from 'react';
+import { AbsoluteFill } from 'remotion';
+import {
+  linearTiming,
+  TransitionPresentation,
+  TransitionPresentationComponentProps,
+  TransitionTiming
+} from '@remotion/transitions';
+import { fade } from '@remotion/transitions/fade';
+import { slide } from '@remotion/transitions/slide';
+import { wipe } from '@remotion/transitions/wipe';
+import { TransitionSettings, VideoManifest, VideoScene } from './types';
+import { resolveLocale } from './i18n';
+
+// Names must match TRANSITION_TYPES in server/manifestValidator.js
+export const TRANSITION_TYPES = ['none', 'crossfade', 'slide', 'wipe', 'push'];
+
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+
+type Direction = NonNullable<TransitionSettings['direction']>;
+// Optional like the props of @remotion/transitions' own presentations
+type SlideOverProps = { direction?: Direction };
+
+const DEFAULT_DIRECTION: Direction = 'from-right';
+
+// RTL locales read right to left, so horizontal movement is mirrored
+const MIRRORED: Partial<Record<Direction, Direction>> = { 'from-left': 'from-right', 'from-right': 'from-left' };
+
+// The new scene slides in over the previous one, which holds still.
+// (@remotion/transitions' slide() pushes the previous scene out, which is our `push`.)
+const SlideOver: React.FC<TransitionPresentationComponentProps<SlideOverProps>> = ({
+  children,
+  presentationDirection,
+  presentationProgress,
+  passedProps
+}) => {
+  if (presentationDirection === 'exiting') return <AbsoluteFill>{children}</AbsoluteFill>;
+
+  const offset = (1 - presentationProgress) * 100;
+  const transform = {
+    'from-left': `translateX(${-offset}%)`,
+    'from-right': `translateX(${offset}%)`,
+    'from-top': `translateY(${-offset}%)`,
+    'from-bottom': `translateY(${offset}%)`
+  }[passedProps.direction ?? DEFAULT_DIRECTION];
+
+  return <AbsoluteFill style={{ transform }}>{children}</AbsoluteFill>;
+};
+
+const slideOver = (direction: Direction): TransitionPresentation<SlideOverProps> => ({
+  component: SlideOver,
+  props: { direction }
+});
+
+export interface ResolvedTransition {
+  presentation: TransitionPresentation<Record<string, unknown>>;
+  timing: TransitionTiming;
+  durationInFrames: number;
+}
+
+/**
+ * The transition into `scene`, with scene settings overriding `meta.transition`.
+ * Capped at `maxFrames` (the length of the scene it reveals); null means a hard cut.
+ * Horizontal directions are mirrored for RTL locales.
+ */
+export const resolveTransition = (
+  meta: VideoManifest['meta'],
+  scene: VideoScene,
+  fps: number,
+  maxFrames: number
+): ResolvedTransition | null => {
+  const settings: TransitionSettings = { ...meta.transition, ...scene.transition };
+  const type = settings.type || 'none';
+  if (!TRANSITION_TYPES.includes(type)) {
+    console.warn(`⚠️ Unknown transition "${type}" into scene ${scene.id}, using a hard cut`);
+    return null;
+  }
+  if (type === 'none') return null;
+
+  const durationInFrames = Math.min(maxFrames, Math.round((settings.duration ?? DEFAULT_TRANSITION_DURATION) * fps));
+  if (durationInFrames < 1) return null;
+
+  const configured = settings.direction || DEFAULT_DIRECTION;
+  const direction = resolveLocale(meta.locale).direction === 'rtl' ? MIRRORED[configured] ?? configured : configured;
+  const presentation =
+    type === 'crossfade'
+      ? fade()
+      : type === 'wipe'
+        ? wipe({ direction })
+        : type === 'push'
+          ? slide({ direction })
+          : slideOver(direction);
+
+  return { presentation, timing: linearTiming({ durationInFrames }), durationInFrames };
+};
@@ -1,3 +1,5 @@
+import type { Caption } from '@remotion/captions'
+
 export interface LoanAnalysis {
     metadata?: {
         status: "COMPLETE" | "INSUFFICIENT_DATA"
@@ -51,6 +53,7 @@ export interface LoanAnalysis {
     }
 }
 
+// Manifest shapes are mirrored by the schemas in server/manifestValidator.js — update both together
 export interface VideoManifest {
     meta: {
         loan_id: string
@@ -58,24 +61,108 @@ export interface VideoManifest {
         theme: string
         resolution: string
         fps: number
+        // BCP 47 tag, e.g. "es-MX": template strings, number formatting, narration voice and RTL layout
+        locale?: string
+        tts?: TtsSettings
+        timing?: {
+            // fit: match narration, pad: narration + padding seconds (default 1), keep: manifest durations
+            policy?: "fit" | "pad" | "keep"
+            padding?: number
+        }
+        captions?: CaptionStyle
+        // Default transition between scenes; hard cuts when omitted
+        transition?: TransitionSettings
+        // Poster, thumbnails and animated preview rendered alongside the video
+        previews?: PreviewSettings
     }
     scenes: VideoScene[]
 }
 
+// Narration voice; scene settings override manifest settings
+export interface TtsSettings {
+    provider?: "deepgram" | "espeak" | "tone" | "silent"
+    voice?: string
+    speed?: number
+}
+
+// White-label branding; sent with the render request, not part of the manifest
+export interface Branding {
+    // null hides the logo; omitted uses the default Loanie logo
+    logo?: { url?: string; asset?: string } | null
+    // null hides the wordmark
+    wordmark?: string | null
+    primaryColor?: string
+    accentColor?: string
+    font?: BrandFont
+}
+
+export interface BrandFont {
+    family: string
+    // google: @remotion/google-fonts, local: a file under public/ or a URL, system: installed font
+    source: "google" | "local" | "system"
+    file?: string
+    weights?: string[]
+}
+
+// Transition into a scene from the one before it; the scene keeps its planned start frame
+export interface TransitionSettings {
+    type?: "none" | "crossfade" | "slide" | "wipe" | "push"
+    // Seconds; default 0.5
+    duration?: number
+    direction?: "from-left" | "from-right" | "from-top" | "from-bottom"
+}
+
+// Server-side only; stills are taken once each scene has settled
+export interface PreviewSettings {
+    poster?: {
+        // Scene id, default: the scene with the recommendation; `frame` (absolute) wins over `scene`
+        scene?: string
+        frame?: number
+        format?: "png" | "jpeg"
+    }
+    // One per scene, default enabled, 480px wide
+    thumbnails?: {
+        enabled?: boolean
+        width?: number
+        format?: "png" | "jpeg"
+    }
+    // Off unless given; starts at the poster scene, `duration` seconds long (default 4)
+    animated?: {
+        format: "gif" | "webp"
+        duration?: number
+        width?: number
+    }
+}
+
+export interface CaptionStyle {
+    enabled?: boolean
+    position?: "top" | "middle" | "bottom"
+    maxLines?: number
+    highlightColor?: string
+}
+
 export interface VideoScene {
     id: string
     start: number
     duration: number
     narration: {
+        // {{analysis.path}} templates are resolved before rendering
         text: string
         audioUrl?: string
+        tts?: TtsSettings
+        // Word timings relative to the start of the scene; filled in by the pipeline
+        captions?: Caption[]
     }
+    // Overrides meta.transition for the cut into this scene
+    transition?: TransitionSettings
     visuals: {
         layout: string
         components: VisualComponent[]
     }
 }
 
+// Components (and key_value items) may carry `bind` references into the LoanAnalysis instead of
+// literal values; server/bindings.js resolves them before rendering, so they never reach Remotion
 export type VisualComponent =
     | { type: "title"; text: string }
     | { type: "subtitle"; text: string }
@@ -83,6 +170,29 @@ export type VisualComponent =
     | { type: "key_value"; items: Array<{ label: string; value: string }> }
     | { type: "metric_card"; label: string; value: string; trend: string }
     | { type: "bar_chart"; title: string; data: Array<{ year: string; value: number }> }
+    // values[i] belongs to labels[i]; unit formats axis and labels, e.g. "$m", "%", "x"
+    | { type: "line_chart"; title: string; labels: string[]; series: ChartSeries[]; unit?: string }
+    | { type: "area_chart"; title: string; labels: string[]; series: ChartSeries[]; unit?: string }
+    // Deltas from the running total; a `total` step is drawn from zero to its value and resets the total
+    | { type: "waterfall"; title: string; steps: Array<{ label: string; value: number; total?: boolean }>; unit?: string }
+    | {
+        type: "donut"
+        title: string
+        segments: Array<{ label: string; value: number; color?: string }>
+        unit?: string
+        // Defaults to the formatted total
+        centerLabel?: string
+    }
+    | {
+        type: "financial_table"
+        title?: string
+        columns: string[]
+        // values[i] belongs to columns[i]; numbers are formatted with `unit`, strings shown as-is
+        rows: Array<{ label: string; values: Array<number | string>; emphasis?: boolean }>
+        unit?: string
+        // Zero-based row and column indexes into `rows` and `columns`
+        highlights?: Array<{ row: number; column: number; tone?: "positive" | "negative" | "warning" | "accent" }>
+    }
     | { type: "risk_table"; risks: Array<{ factor: string; severity: string; mitigant: string }> }
     | {
         type: "covenant_list"
@@ -92,3 +202,8 @@ export type VisualComponent =
     | { type: "recommendation"; decision: string; rationale: string | string[]; conditions?: string[] }
     | { type: "confidence_indicator"; status: string; confidence: string; source?: string }
 
+export interface ChartSeries {
+    name: string
+    values: number[]
+    color?: string
+}
@@ -0,0 +1,24 @@
+// Guards operator endpoints (POST /bundle/rebuild) with a bearer token: ADMIN_TOKEN.
+// Without ADMIN_TOKEN they are disabled rather than left open.
+
+const crypto = require('crypto');
+
+// Compares digests so neither the length nor the content of the token leaks through timing
+function tokensMatch(given, expected) {
+    const digest = value => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+function requireAdmin(req, res, next) {
+    const expected = process.env.ADMIN_TOKEN;
+    if (!expected) {
+        return res.status(403).json({ error: 'Admin endpoints are disabled; set ADMIN_TOKEN to enable them' });
+    }
+    const match = /^Bearer (.+)$/.exec(req.get('Authorization') || '');
+    if (!match || !tokensMatch(match[1], expected)) {
+        return res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Invalid or missing admin token' });
+    }
+    next();
+}
+
+module.exports = { requireAdmin };
@@ -0,0 +1,223 @@
+// Resolves references into the LoanAnalysis sent with a render request, so figures are read from
+// the analysis instead of being copied into the manifest (where they can be mistyped or go stale):
+//
+//   components: { "type": "metric_card", "label": "Leverage", "bind": "financialHealth.leverage" }
+//               { "type": "recommendation", "bind": { "decision": "recommendation.decision", ... } }
+//   key_value:  { "items": [{ "label": "Industry", "bind": "borrowerSnapshot.industry" }] }
+//   narration:  "The facility is for {{loanOverview.amount}}."
+//
+// A plain-string `bind` fills the component's first value field. Every value field and narration
+// line is recorded in a provenance report as coming from the analysis, written literally or, for
+// fields a bound component leaves out (a metric card's trend), defaulted.
+//
+// Any path can name a format for `meta.locale` after a pipe (see server/locale.js):
+// "{{loanOverview.amount | compact}}" turns "$25.5M" into "25,5 M $US" in fr-FR; also `number`,
+// `currency[:EUR]`, `percent` and `date[:short|medium|long|full]`.
+
+const { createIssue, formatPath, formatPointer } = require('./issues');
+const { DEFAULT_LOCALE, canonicalLocale, formatValue } = require('./locale');
+
+// Fields that carry data, per component type; the first is the target of a plain-string bind
+const VALUE_FIELDS = {
+    title: ['text'],
+    subtitle: ['text'],
+    data_card: ['value'],
+    metric_card: ['value', 'trend'],
+    key_value: ['items'],
+    bar_chart: ['data'],
+    line_chart: ['series'],
+    area_chart: ['series'],
+    waterfall: ['steps'],
+    donut: ['segments'],
+    risk_table: ['risks'],
+    covenant_list: ['covenants'],
+    esg_scores: ['scores'],
+    recommendation: ['decision', 'rationale', 'conditions'],
+    confidence_indicator: ['status', 'confidence'],
+    financial_table: ['rows']
+};
+
+// Fields a bound component may leave out; the analysis has nothing to fill them from
+const BOUND_DEFAULTS = {
+    metric_card: { trend: 'flat' }
+};
+
+const TEMPLATE = /\{\{\s*([^}]+?)\s*\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*|\.\d+|\[\d+\])*$/;
+
+function isPlainObject(value) {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// "yearsInBusiness" -> "Years In Business"
+function humanize(key) {
+    return key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+}
+
+// LoanAnalysis shapes that differ from the component shape they are bound to
+const ADAPTERS = {
+    'key_value.items': value => isPlainObject(value)
+        ? Object.entries(value).map(([key, item]) => ({ label: humanize(key), value: String(item) }))
+        : value,
+    'bar_chart.data': value => Array.isArray(value)
+        ? value.map(point => ({ year: String(point?.year), value: Number(point?.value) }))
+        : value,
+    'covenant_list.covenants': value => Array.isArray(value)
+        ? value.map(covenant => ({
+            type: covenant?.type,
+            requirement: covenant?.requirement,
+            status: covenant?.status ?? covenant?.currentStatus,
+            compliant: Boolean(covenant?.compliant)
+        }))
+        : value,
+    'esg_scores.scores': value => isPlainObject(value)
+        ? Object.fromEntries(Object.entries(value).map(([key, score]) => [key, String(score?.score ?? score)]))
+        : value
+};
+
+// Own properties only, so a path can never reach into prototypes
+function lookup(analysis, path) {
+    if (!PATH_PATTERN.test(path)) return undefined;
+    return path.split(/\.|(?=\[)/).reduce((node, key) => {
+        if (node === undefined || node === null || typeof node !== 'object') return undefined;
+        const index = key.match(/^\[(\d+)\]$/);
+        const property = index ? Number(index[1]) : key;
+        return Object.prototype.hasOwnProperty.call(node, property) ? node[property] : undefined;
+    }, analysis);
+}
+
+// "financialHealth.revenue | currency:EUR" -> { path, format: 'currency', option: 'EUR' }
+function parseExpression(expression) {
+    const [path, format] = expression.split('|').map(part => part.trim());
+    if (!format) return { path };
+    const [name, option] = format.split(':').map(part => part.trim());
+    return { path, format: name, option };
+}
+
+function adapt(type, field, value) {
+    const adapter = ADAPTERS[`${type}.${field}`];
+    if (adapter) return adapter(value);
+    // Component scalars are strings; analysis figures are often numbers
+    return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+}
+
+function provenanceEntry(segments, source, bindings) {
+    return {
+        path: formatPath(segments),
+        pointer: formatPointer(segments),
+        source,
+        ...(bindings.length > 0 && { bindings })
+    };
+}
+
+/**
+ * Resolves bindings in one scene as received (before schema validation). Returns the scene with
+ * bound values filled in and `bind` removed, an error for every binding that does not resolve,
+ * and the provenance of each value field and of the narration. `locale` is used for formats.
+ */
+function resolveSceneBindings(scene, analysis, segments, { locale } = {}) {
+    const errors = [];
+    const provenance = [];
+    if (!isPlainObject(scene)) return { scene, errors, provenance };
+    const formatLocale = canonicalLocale(locale || DEFAULT_LOCALE) || DEFAULT_LOCALE;
+
+    const resolve = (expression, at) => {
+        const { path, format, option } = typeof expression === 'string' ? parseExpression(expression) : {};
+        const value = typeof path === 'string' && analysis ? lookup(analysis, path) : undefined;
+        if (value === undefined || value === null) {
+            const reason = typeof path !== 'string'
+                ? 'must be an analysis path such as "financialHealth.leverage"'
+                : analysis
+                    ? `"${path}" does not resolve in the analysis`
+                    : `"${path}" needs an analysis in the request`;
+            errors.push(createIssue(at, reason));
+            return undefined;
+        }
+        if (!format) return value;
+
+        const formatted = formatValue(value, format, option, formatLocale);
+        if (formatted.error) {
+            errors.push(createIssue(at, `"${expression}" cannot be formatted: ${formatted.error}`));
+            return undefined;
+        }
+        return formatted.text;
+    };
+
+    const result = { ...scene };
+
+    const narration = result.narration;
+    const text = typeof narration === 'string' ? narration : narration?.text;
+    if (typeof text === 'string') {
+        const at = typeof narration === 'string' ? [...segments, 'narration'] : [...segments, 'narration', 'text'];
+        const bindings = [];
+        const resolved = text.replace(TEMPLATE, (match, path) => {
+            bindings.push(path);
+            const value = resolve(path, at);
+            return value === undefined ? match : String(value);
+        });
+        result.narration = typeof narration === 'string' ? resolved : { ...narration, text: resolved };
+        provenance.push(provenanceEntry(at, bindings.length > 0 ? 'template' : 'literal', bindings));
+    }
+
+    const components = result.visuals?.components;
+    if (!Array.isArray(components)) return { scene: result, errors, provenance };
+
+    result.visuals = {
+        ...result.visuals,
+        components: components.map((component, i) => {
+            const at = [...segments, 'visuals', 'components', i];
+            const fields = VALUE_FIELDS[component?.type];
+            if (!isPlainObject(component) || !fields) return component;
+
+            const { bind, ...resolved } = component;
+            const bound = {};
+
+            if (typeof bind === 'string') {
+                bound[fields[0]] = bind;
+            } else if (isPlainObject(bind)) {
+                Object.assign(bound, bind);
+            } else if (bind !== undefined) {
+                errors.push(createIssue([...at, 'bind'], 'must be an analysis path or an object mapping fields to paths'));
+            }
+
+            for (const [field, path] of Object.entries(bound)) {
+                const value = resolve(path, typeof bind === 'string' ? [...at, 'bind'] : [...at, 'bind', field]);
+                if (value !== undefined) resolved[field] = adapt(component.type, field, value);
+            }
+
+            const defaulted = bind !== undefined
+                ? Object.keys(BOUND_DEFAULTS[component.type] || {}).filter(field => !(field in resolved))
+                : [];
+            defaulted.forEach(field => { resolved[field] = BOUND_DEFAULTS[component.type][field]; });
+
+            // key_value items can be bound one by one
+            if (component.type === 'key_value' && !bound.items && Array.isArray(resolved.items)) {
+                resolved.items = resolved.items.map((item, k) => {
+                    if (!isPlainObject(item)) return item;
+                    const { bind: itemBind, ...rest } = item;
+                    const itemAt = [...at, 'items', k];
+                    if (itemBind !== undefined) {
+                        const value = resolve(itemBind, [...itemAt, 'bind']);
+                        if (value !== undefined) rest.value = String(value);
+                    }
+                    provenance.push(provenanceEntry([...itemAt, 'value'], itemBind !== undefined ? 'analysis' : 'literal',
+                        itemBind !== undefined ? [itemBind] : []));
+                    return rest;
+                });
+            }
+
+            fields
+                .filter(field => field in resolved && !(component.type === 'key_value' && !bound.items))
+                .forEach(field => {
+                    const source = bound[field] ? 'analysis' : defaulted.includes(field) ? 'default' : 'literal';
+                    provenance.push(provenanceEntry([...at, field], source, bound[field] ? [bound[field]] : []));
+                });
+
+            return resolved;
+        })
+    };
+
+    return { scene: result, errors, provenance };
+}
+
+module.exports = { resolveSceneBindings };
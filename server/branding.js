@@ -0,0 +1,50 @@
+// Branding profiles: sent inline with a render request as `branding`, or stored as
+// JSON files in BRANDING_DIR (default ./branding) and referenced by `branding_id`.
+// Inline fields override the stored profile, so a request can tweak a tenant's defaults.
+
+const fs = require('fs');
+const path = require('path');
+const { validateBranding } = require('./manifestValidator');
+const { createIssue } = require('./issues');
+
+const BRANDING_DIR = process.env.BRANDING_DIR || path.join(__dirname, '..', 'branding');
+const PROFILE_ID = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// `{ profile }`, with null when there is no such profile, or `{ error }` for a file that cannot be read
+function loadStoredProfile(id) {
+    if (!PROFILE_ID.test(id)) return { profile: null };
+    const profilePath = path.join(BRANDING_DIR, `${id}.json`);
+    if (!fs.existsSync(profilePath)) return { profile: null };
+    try {
+        return { profile: JSON.parse(fs.readFileSync(profilePath, 'utf8')) };
+    } catch (err) {
+        return { error: `"${id}" is a stored branding profile that could not be read: ${err.message}` };
+    }
+}
+
+/**
+ * Resolves the branding for a request. Returns `{ branding, errors, warnings }`;
+ * `branding` is null when none was requested or when there are errors.
+ */
+function resolveBranding({ branding, branding_id }, { mode } = {}) {
+    if (!branding && !branding_id) return { branding: null, errors: [], warnings: [] };
+
+    let stored = {};
+    if (branding_id) {
+        const { profile, error } = loadStoredProfile(branding_id);
+        if (!profile) {
+            return {
+                branding: null,
+                errors: [createIssue(['branding_id'], error || `"${branding_id}" does not match a stored branding profile`)],
+                warnings: []
+            };
+        }
+        stored = profile;
+    }
+
+    const merged = { ...stored, ...(branding || {}) };
+    if (stored.font && branding?.font) merged.font = { ...stored.font, ...branding.font };
+    return validateBranding(merged, { mode });
+}
+
+module.exports = { resolveBranding };
@@ -0,0 +1,144 @@
+// Reuses the Remotion bundle across renders. The bundle is keyed by a hash of the files under
+// remotion/. Each lookup compares file names, sizes and mtimes with the last hash and hashes the
+// contents again only when they moved, so template edits are picked up without a restart;
+// concurrent callers share one in-flight build. Assets under public/ are not hashed.
+//
+// Renders hold the bundle they use (acquire/release); a superseded bundle is deleted from disk
+// once no render holds it.
+
+const { bundle } = require('@remotion/bundler');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+function listFiles(dir) {
+    return fs.readdirSync(dir, { withFileTypes: true })
+        .flatMap(entry => {
+            const fullPath = path.join(dir, entry.name);
+            return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+        })
+        .sort();
+}
+
+// Covers file names as well as contents, so renames and deletions count as changes
+function hashSources(sourceDir) {
+    const hash = crypto.createHash('sha256');
+    for (const file of listFiles(sourceDir)) {
+        hash.update(path.relative(sourceDir, file));
+        hash.update('\0');
+        hash.update(fs.readFileSync(file));
+        hash.update('\0');
+    }
+    return hash.digest('hex');
+}
+
+// Cheap stand-in for hashSources that only stats the files
+function statSources(sourceDir) {
+    return listFiles(sourceDir)
+        .map(file => {
+            const { size, mtimeMs } = fs.statSync(file);
+            return `${path.relative(sourceDir, file)}:${size}:${mtimeMs}`;
+        })
+        .join('\n');
+}
+
+function createBundleCache({ entryPoint, sourceDir }) {
+    let current = null;
+    let inFlight = null;
+    let latest = null;
+    // `{ stats, hash }` from the last time the sources were hashed
+    let sources = null;
+    // Bundle directories this process built, and the renders holding each
+    const built = new Set();
+    const holds = new Map();
+
+    function currentSources() {
+        const stats = statSources(sourceDir);
+        if (sources?.stats !== stats) sources = { stats, hash: hashSources(sourceDir) };
+        return sources.hash;
+    }
+
+    // Deletes built bundles that are neither current nor held
+    function prune() {
+        for (const serveUrl of built) {
+            if (serveUrl === current?.serveUrl || holds.has(serveUrl)) continue;
+            built.delete(serveUrl);
+            fs.rmSync(serveUrl, { recursive: true, force: true });
+            console.log(`🧹 Removed superseded bundle ${serveUrl}`);
+        }
+    }
+
+    function build(hash) {
+        const startedAt = Date.now();
+        console.log(`📦 Bundling Remotion project (sources ${hash.slice(0, 12)})...`);
+        const promise = bundle(entryPoint)
+            .then(serveUrl => {
+                const durationMs = Date.now() - startedAt;
+                console.log(`📦 Bundle ready in ${durationMs}ms`);
+                if (path.isAbsolute(serveUrl)) built.add(serveUrl);
+                // A build overtaken by a newer one still serves its callers, but does not become current
+                if (latest === promise) {
+                    current = { hash, serveUrl, builtAt: new Date().toISOString(), durationMs };
+                    prune();
+                }
+                return serveUrl;
+            })
+            .finally(() => {
+                if (inFlight?.promise === promise) inFlight = null;
+            });
+        inFlight = { hash, promise };
+        latest = promise;
+        return promise;
+    }
+
+    // Resolves with the serve URL for the current sources, building only when they changed
+    async function get() {
+        const hash = currentSources();
+        if (current?.hash === hash) return current.serveUrl;
+        if (inFlight?.hash === hash) return inFlight.promise;
+        return build(hash);
+    }
+
+    // Like get, but keeps the bundle on disk until `release(serveUrl)`
+    async function acquire() {
+        const serveUrl = await get();
+        holds.set(serveUrl, (holds.get(serveUrl) || 0) + 1);
+        return serveUrl;
+    }
+
+    function release(serveUrl) {
+        const count = (holds.get(serveUrl) || 0) - 1;
+        if (count > 0) {
+            holds.set(serveUrl, count);
+            return;
+        }
+        holds.delete(serveUrl);
+        prune();
+    }
+
+    // Hashes the sources again and builds even if they are unchanged; joins a build of the same
+    // sources already running
+    async function rebuild() {
+        sources = { stats: statSources(sourceDir), hash: hashSources(sourceDir) };
+        if (inFlight?.hash === sources.hash) return inFlight.promise;
+        return build(sources.hash);
+    }
+
+    // Identifies the template version, e.g. for deduplicating renders
+    function sourceHash() {
+        return currentSources();
+    }
+
+    function status() {
+        return {
+            hash: current?.hash ?? null,
+            builtAt: current?.builtAt ?? null,
+            durationMs: current?.durationMs ?? null,
+            building: inFlight !== null
+        };
+    }
+
+    return { get, acquire, release, rebuild, sourceHash, status };
+}
+
+module.exports = { createBundleCache };
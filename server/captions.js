@@ -0,0 +1,102 @@
+// Word-level timestamps for narration audio, in @remotion/captions `Caption` format
+// (milliseconds relative to the start of the scene's audio).
+//
+// Providers that know their own timing (e.g. the tone stub) supply `words` directly.
+// Otherwise, when WHISPER_CPP_PATH is set, the clip is aligned with a local whisper.cpp;
+// it is installed there on first use together with WHISPER_MODEL. Narration in other languages
+// (meta.locale) is aligned with WHISPER_MULTILINGUAL_MODEL, since the default model is English-only.
+
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const fs = require('fs');
+const { installWhisperCpp, downloadWhisperModel, transcribe, toCaptions } = require('@remotion/install-whisper-cpp');
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_WHISPER_VERSION = '1.5.5';
+const DEFAULT_WHISPER_MODEL = 'base.en';
+const DEFAULT_MULTILINGUAL_MODEL = 'base';
+
+// Shared by concurrent jobs so whisper.cpp and each model are only installed once
+let whisperReady = null;
+const modelsReady = new Map();
+
+function whisperConfig(language) {
+    if (!process.env.WHISPER_CPP_PATH) return null;
+    const english = !language || language === 'en';
+    return {
+        whisperPath: process.env.WHISPER_CPP_PATH,
+        version: process.env.WHISPER_CPP_VERSION || DEFAULT_WHISPER_VERSION,
+        model: english
+            ? process.env.WHISPER_MODEL || DEFAULT_WHISPER_MODEL
+            : process.env.WHISPER_MULTILINGUAL_MODEL || DEFAULT_MULTILINGUAL_MODEL,
+        language: english ? null : language
+    };
+}
+
+async function ensureWhisper(config) {
+    if (!whisperReady) {
+        whisperReady = installWhisperCpp({ to: config.whisperPath, version: config.version }).catch(err => {
+            whisperReady = null;
+            throw err;
+        });
+    }
+    await whisperReady;
+    if (!modelsReady.has(config.model)) {
+        modelsReady.set(config.model, downloadWhisperModel({ model: config.model, folder: config.whisperPath }).catch(err => {
+            modelsReady.delete(config.model);
+            throw err;
+        }));
+    }
+    await modelsReady.get(config.model);
+}
+
+// whisper.cpp only accepts 16 kHz mono WAV
+async function toWhisperWav(inputPath) {
+    const outputPath = inputPath.replace(/\.[^.]+$/, '') + '.16k.wav';
+    await execFileAsync(process.env.FFMPEG_BINARY || 'ffmpeg', [
+        '-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', outputPath
+    ]);
+    return outputPath;
+}
+
+async function transcribeWords(audioPath, config, signal) {
+    await ensureWhisper(config);
+    const wavPath = await toWhisperWav(audioPath);
+    try {
+        const whisperCppOutput = await transcribe({
+            inputPath: wavPath,
+            whisperPath: config.whisperPath,
+            whisperCppVersion: config.version,
+            model: config.model,
+            language: config.language,
+            tokenLevelTimestamps: true,
+            signal
+        });
+        return toCaptions({ whisperCppOutput }).captions;
+    } finally {
+        fs.rmSync(wavPath, { force: true });
+    }
+}
+
+/**
+ * Resolves with word-level captions for a generated narration clip, or null when
+ * no timing source is available. `language` is the narration's language code, e.g. "es".
+ * Alignment failures are logged, never thrown: the scene then falls back to static captions.
+ */
+async function alignNarration(audioPath, audio, { signal, language } = {}) {
+    if (Array.isArray(audio.words) && audio.words.length > 0) return audio.words;
+
+    const config = whisperConfig(language);
+    if (!config) return null;
+
+    try {
+        const words = await transcribeWords(audioPath, config, signal);
+        return words.length > 0 ? words : null;
+    } catch (err) {
+        console.error(`    ⚠️ Word alignment failed for ${audioPath}:`, err.message);
+        return null;
+    }
+}
+
+module.exports = { alignNarration };
@@ -0,0 +1,21 @@
+// Path-level issues shared by validation and the render pipeline:
+// { path: 'scenes[3].visuals.components[1]', pointer: '/scenes/3/visuals/components/1', message }
+
+// scenes[3].visuals.components[1] — the form quoted in messages
+function formatPath(segments) {
+    return segments
+        .map((segment, i) => (typeof segment === 'number' ? `[${segment}]` : i === 0 ? segment : `.${segment}`))
+        .join('') || 'manifest';
+}
+
+// RFC 6901 JSON pointer for machine consumers
+function formatPointer(segments) {
+    return '/' + segments.map(s => String(s).replace(/~/g, '~0').replace(/\//g, '~1')).join('/');
+}
+
+function createIssue(segments, reason) {
+    const path = formatPath(segments);
+    return { path, pointer: formatPointer(segments), message: `${path} ${reason}` };
+}
+
+module.exports = { createIssue, formatPath, formatPointer };
@@ -0,0 +1,220 @@
+// In-memory FIFO queue for render jobs with a fixed number of concurrent workers.
+// Jobs are kept around for `retentionMs` after they finish so clients can read the outcome.
+//
+// Each job also carries a stream of typed events (stage, progress, tts, render, warning and
+// the final completed/failed/cancelled) for GET /jobs/:id/events. The most recent events are
+// kept so a reconnecting client can catch up from its Last-Event-ID.
+
+// Events kept per job for replay
+const EVENT_HISTORY = 200;
+const TERMINAL_EVENTS = ['completed', 'failed', 'cancelled'];
+
+class JobCancelledError extends Error {
+    constructor(jobId) {
+        super(`Job ${jobId} was cancelled`);
+        this.name = 'JobCancelledError';
+    }
+}
+
+class QueueFullError extends Error {
+    constructor(limit) {
+        super(`Render queue is full (${limit} jobs waiting)`);
+        this.name = 'QueueFullError';
+    }
+}
+
+function createJob(id, payload) {
+    const abortController = new AbortController();
+    let resolveDone;
+    const done = new Promise(resolve => { resolveDone = resolve; });
+    const listeners = new Set();
+    let lastEventId = 0;
+
+    return {
+        id,
+        payload,
+        state: 'queued',
+        stage: 'queued',
+        progress: 0,
+        progress_label: 'Queued',
+        result: null,
+        error: null,
+        // Webhook delivery logs, recorded by the server once the job has finished
+        webhooks: null,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        signal: abortController.signal,
+        done,
+
+        events: [],
+
+        // Records an event and passes it to every subscriber: { id, type, data }
+        emit(type, data = {}) {
+            const event = { id: ++lastEventId, type, data };
+            this.events.push(event);
+            if (this.events.length > EVENT_HISTORY) this.events.shift();
+            listeners.forEach(listener => listener(event));
+        },
+
+        // Returns an unsubscribe function
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        // Events after `eventId`, or null when they are no longer all in the history
+        eventsSince(eventId) {
+            const index = this.events.findIndex(event => event.id > eventId);
+            if (index === -1) return eventId >= lastEventId ? [] : null;
+            return this.events[index].id === eventId + 1 ? this.events.slice(index) : null;
+        },
+
+        // `stage` names the pipeline step; a change is announced with its own event
+        setProgress(progress, label, stage) {
+            this.progress = progress;
+            if (label) this.progress_label = label;
+            if (stage && stage !== this.stage) {
+                this.stage = stage;
+                this.emit('stage', { stage, progress: this.progress, label: this.progress_label });
+            }
+            this.emit('progress', { progress: this.progress, label: this.progress_label });
+        },
+
+        // Pipelines call this between steps so a cancel takes effect promptly
+        throwIfCancelled() {
+            if (this.signal.aborted) throw new JobCancelledError(this.id);
+        },
+
+        _abort() { abortController.abort(); },
+        _settle() { resolveDone(this); }
+    };
+}
+
+function createJobQueue({ concurrency = 1, maxQueued = 20, retentionMs = 60 * 60 * 1000, run }) {
+    // A NaN or zero limit would queue jobs that never start
+    for (const [name, value] of Object.entries({ concurrency, maxQueued })) {
+        if (!Number.isInteger(value) || value < 1) throw new Error(`Job queue ${name} must be a positive integer, got ${value}`);
+    }
+
+    const jobs = new Map();
+    const pending = [];
+    let active = 0;
+
+    function finish(job, state) {
+        job.state = state;
+        job.finishedAt = new Date().toISOString();
+        if (state === 'completed') job.emit('completed', { result: job.result });
+        else if (state === 'failed') job.emit('failed', { error: job.error });
+        else job.emit('cancelled', {});
+        job._settle();
+        // The id may have been registered again since (restore), so only this job is dropped
+        setTimeout(() => {
+            if (jobs.get(job.id) === job) jobs.delete(job.id);
+        }, retentionMs).unref();
+    }
+
+    async function start(job) {
+        active++;
+        job.state = 'processing';
+        job.startedAt = new Date().toISOString();
+        job.setProgress(job.progress, 'Starting', 'starting');
+
+        try {
+            job.result = await run(job);
+            job.setProgress(100, 'Finished', 'finished');
+            finish(job, 'completed');
+        } catch (err) {
+            if (job.signal.aborted || err instanceof JobCancelledError) {
+                job.progress_label = 'Cancelled';
+                finish(job, 'cancelled');
+            } else {
+                job.error = err.message;
+                job.progress_label = 'Failed';
+                finish(job, 'failed');
+            }
+        } finally {
+            active--;
+            drain();
+        }
+    }
+
+    function drain() {
+        while (active < concurrency && pending.length > 0) {
+            start(pending.shift());
+        }
+    }
+
+    function enqueue(id, payload) {
+        if (pending.length >= maxQueued) throw new QueueFullError(maxQueued);
+
+        const job = createJob(id, payload);
+        jobs.set(id, job);
+        pending.push(job);
+        drain();
+        return job;
+    }
+
+    // Returns the job, or null if unknown. Finished jobs are returned unchanged.
+    function cancel(id) {
+        const job = jobs.get(id);
+        if (!job) return null;
+
+        if (job.state === 'queued') {
+            pending.splice(pending.indexOf(job), 1);
+            job._abort();
+            job.progress_label = 'Cancelled';
+            finish(job, 'cancelled');
+        } else if (job.state === 'processing') {
+            job.progress_label = 'Cancelling';
+            job._abort();
+        }
+        return job;
+    }
+
+    // Registers a render that completed earlier (e.g. found in the status store) so it can be
+    // read like any other job; it is retained like a freshly completed one
+    function restore(id, result) {
+        const job = createJob(id, {});
+        jobs.set(id, job);
+        job.result = result;
+        job.setProgress(100, 'Finished', 'finished');
+        finish(job, 'completed');
+        return job;
+    }
+
+    // 1-based position among waiting jobs, or null once a job has started
+    function position(job) {
+        const index = pending.indexOf(job);
+        return index === -1 ? null : index + 1;
+    }
+
+    function get(id) {
+        return jobs.get(id) || null;
+    }
+
+    function toJSON(job) {
+        return {
+            id: job.id,
+            state: job.state,
+            stage: job.stage,
+            progress: job.progress,
+            progress_label: job.progress_label,
+            position: position(job),
+            result: job.result,
+            error: job.error,
+            webhooks: job.webhooks,
+            createdAt: job.createdAt,
+            startedAt: job.startedAt,
+            finishedAt: job.finishedAt
+        };
+    }
+
+    function stats() {
+        return { active, queued: pending.length, concurrency, maxQueued };
+    }
+
+    return { enqueue, restore, cancel, get, position, toJSON, stats };
+}
+
+module.exports = { createJobQueue, JobCancelledError, QueueFullError, TERMINAL_EVENTS };
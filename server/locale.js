@@ -0,0 +1,118 @@
+// Locale handling on the server: `meta.locale` tags, the languages the template has strings for,
+// and Intl formatting for figures bound from the analysis. LoanAnalysis figures are free-form
+// strings ("$25.5M", "18.2%", "3.2x"), so they are parsed before being formatted.
+
+// Must match DEFAULT_LOCALE in remotion/i18n.ts
+const DEFAULT_LOCALE = 'en-US';
+// Must match UI_STRINGS in remotion/i18n.ts
+const UI_LANGUAGES = ['en', 'es', 'fr', 'ar'];
+
+// Must match CURRENCY_SYMBOLS in remotion/format.ts
+const CURRENCY_SYMBOLS = { $: 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+const SCALES = { k: 1e3, m: 1e6, mm: 1e6, mn: 1e6, b: 1e9, bn: 1e9 };
+const DATE_STYLES = ['short', 'medium', 'long', 'full'];
+const FORMATS = ['number', 'compact', 'currency', 'percent', 'date'];
+
+// Optional sign, currency symbol or ISO code, digits with thousands separators, scale or unit
+const FIGURE = /^([-+])?\s*([$€£¥]|[A-Z]{3}\s)?\s*(\d[\d,]*(?:\.\d+)?)\s*(k|mm|mn|m|bn|b|%|x)?$/i;
+
+// Canonical BCP 47 tag, or null when `tag` is not one
+function canonicalLocale(tag) {
+    try {
+        return Intl.getCanonicalLocales(tag)[0];
+    } catch (err) {
+        return null;
+    }
+}
+
+function localeLanguage(tag) {
+    return (canonicalLocale(tag || DEFAULT_LOCALE) || DEFAULT_LOCALE).split('-')[0].toLowerCase();
+}
+
+/**
+ * "$25.5M" -> { value: 25500000, currency: 'USD' }, "18.2%" -> { value: 18.2, percent: true },
+ * "3.2x" -> { value: 3.2, multiple: true }. Numbers are returned as they are; anything else is null.
+ */
+function parseFigure(raw) {
+    if (typeof raw === 'number') return Number.isFinite(raw) ? { value: raw } : null;
+    if (typeof raw !== 'string') return null;
+    const match = raw.trim().match(FIGURE);
+    if (!match) return null;
+
+    const [, sign, symbol, digits, unit = ''] = match;
+    const suffix = unit.toLowerCase();
+    const value = Number(digits.replace(/,/g, '')) * (sign === '-' ? -1 : 1) * (SCALES[suffix] || 1);
+    return {
+        value,
+        ...(symbol && { currency: CURRENCY_SYMBOLS[symbol] || symbol.trim().toUpperCase() }),
+        ...(suffix === '%' && { percent: true }),
+        ...(suffix === 'x' && { multiple: true })
+    };
+}
+
+function parseDate(raw) {
+    const date = typeof raw === 'number' || typeof raw === 'string' ? new Date(raw) : null;
+    return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Formats an analysis value for `locale`: `format` is one of FORMATS and `option` its argument
+ * (`currency:EUR`, `date:short`). A currency option sets the currency of a bare figure; a figure
+ * already in another currency is rejected, as amounts are not converted. Returns `{ text }`, or
+ * `{ error }` when the value does not fit the format.
+ */
+function formatValue(raw, format, option, locale) {
+    if (format === 'date') {
+        const style = option || 'long';
+        if (!DATE_STYLES.includes(style)) return { error: `date style must be one of: ${DATE_STYLES.join(', ')}` };
+        const date = parseDate(raw);
+        if (!date) return { error: `"${raw}" is not a date` };
+        // Analysis dates are calendar dates; formatting in UTC keeps them from shifting a day
+        return { text: new Intl.DateTimeFormat(locale, { dateStyle: style, timeZone: 'UTC' }).format(date) };
+    }
+
+    const figure = parseFigure(raw);
+    if (!figure) return { error: `"${raw}" is not a number` };
+    // The option names the currency of figures that have none; amounts are never converted
+    if (format === 'currency' && option && figure.currency && figure.currency !== option.toUpperCase()) {
+        return { error: `"${raw}" is in ${figure.currency}, not ${option.toUpperCase()}; amounts are not converted` };
+    }
+    const options = { minimumFractionDigits: 0, maximumFractionDigits: 2 };
+
+    try {
+        switch (format) {
+            case 'number':
+                return { text: new Intl.NumberFormat(locale, options).format(figure.value) + (figure.percent ? '%' : figure.multiple ? 'x' : '') };
+            case 'compact':
+                return {
+                    text: new Intl.NumberFormat(locale, {
+                        ...options,
+                        maximumFractionDigits: 1,
+                        notation: 'compact',
+                        ...(figure.currency && { style: 'currency', currency: figure.currency })
+                    }).format(figure.value)
+                };
+            case 'currency':
+                return {
+                    text: new Intl.NumberFormat(locale, {
+                        ...options,
+                        style: 'currency',
+                        currency: figure.currency || option || 'USD'
+                    }).format(figure.value)
+                };
+            case 'percent':
+                // "18%" is eighteen percent; a bare number is a fraction (0.18)
+                return {
+                    text: new Intl.NumberFormat(locale, { ...options, maximumFractionDigits: 1, style: 'percent' })
+                        .format(figure.percent ? figure.value / 100 : figure.value)
+                };
+            default:
+                return { error: `unknown format "${format}"; expected one of: ${FORMATS.join(', ')}` };
+        }
+    } catch (err) {
+        // e.g. an invalid currency code
+        return { error: err.message };
+    }
+}
+
+module.exports = { DEFAULT_LOCALE, UI_LANGUAGES, FORMATS, canonicalLocale, localeLanguage, parseFigure, formatValue };
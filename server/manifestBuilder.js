@@ -0,0 +1,351 @@
+// Deterministic storyboard generator: turns a LoanAnalysis into a complete VideoManifest.
+// Used when the request carries no manifest (e.g. the upstream AI step failed or timed out)
+// and as a predictable baseline for regression tests. Same analysis in, same manifest out.
+
+const WORDS_PER_SECOND = 2.5;
+const MIN_SCENE_DURATION = 6;
+const SCENE_PADDING = 1.5;
+
+const SEVERITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+// Stand-ins for fields a partial analysis leaves out, so the manifest still validates
+const UNKNOWN_RISK = 'Unnamed risk';
+const UNRATED = 'unrated';
+const UNKNOWN_STATUS = 'INSUFFICIENT_DATA';
+const UNKNOWN_CONFIDENCE = 'UNKNOWN';
+
+const DECISION_PHRASES = {
+    approve: 'approval',
+    conditional: 'conditional approval',
+    decline: 'decline'
+};
+
+// Narration length drives scene length so the voice-over is never cut off
+function estimateDuration(text) {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return Math.max(MIN_SCENE_DURATION, Math.ceil(words / WORDS_PER_SECOND + SCENE_PADDING));
+}
+
+// "+12%", "-3.5%", "12% growth" -> up / down / flat
+function trendFromGrowth(growth) {
+    const match = String(growth ?? '').match(/-?\d+(\.\d+)?/);
+    if (!match) return 'flat';
+    const value = parseFloat(match[0]);
+    if (value > 0) return 'up';
+    if (value < 0) return 'down';
+    return 'flat';
+}
+
+// Points without a numeric value cannot be charted or compared
+function chartablePoints(series) {
+    if (!Array.isArray(series)) return [];
+    return series.filter(point =>
+        point && point.value !== null && point.value !== '' && Number.isFinite(Number(point.value))
+    );
+}
+
+function trendFromSeries(series) {
+    if (!Array.isArray(series) || series.length < 2) return 'flat';
+    const first = Number(series[0].value);
+    const last = Number(series[series.length - 1].value);
+    if (last > first) return 'up';
+    if (last < first) return 'down';
+    return 'flat';
+}
+
+function joinSentences(parts) {
+    return parts
+        .filter(Boolean)
+        .map(part => String(part).trim().replace(/\.+$/, '') + '.')
+        .join(' ');
+}
+
+function overviewScene(analysis) {
+    const overview = analysis.loanOverview || {};
+    return {
+        id: 'overview',
+        components: [
+            { type: 'title', text: overview.borrowerName || 'Loan Briefing' },
+            {
+                type: 'subtitle',
+                text: [overview.loanType, overview.amount, overview.tenor].filter(Boolean).join(' · ')
+            }
+        ],
+        narration: joinSentences([
+            `This briefing covers a ${overview.amount || ''} ${overview.loanType || 'loan'} request from ${overview.borrowerName || 'the borrower'}`.replace(/\s+/g, ' '),
+            overview.tenor && `The proposed tenor is ${overview.tenor}`,
+            overview.purpose && `The stated purpose of the facility: ${overview.purpose.charAt(0).toLowerCase()}${overview.purpose.slice(1)}`
+        ])
+    };
+}
+
+function borrowerScene(analysis) {
+    const snapshot = analysis.borrowerSnapshot;
+    if (!snapshot) return null;
+
+    const name = analysis.loanOverview?.borrowerName || 'The borrower';
+    return {
+        id: 'borrower_snapshot',
+        components: [
+            { type: 'title', text: 'Borrower Snapshot' },
+            {
+                type: 'key_value',
+                items: [
+                    { label: 'Industry', value: String(snapshot.industry ?? 'N/A') },
+                    { label: 'Years in Business', value: String(snapshot.yearsInBusiness ?? 'N/A') },
+                    { label: 'Employees', value: String(snapshot.employees ?? 'N/A') },
+                    { label: 'Headquarters', value: String(snapshot.headquarters ?? 'N/A') },
+                    { label: 'Credit Rating', value: String(snapshot.creditRating ?? 'N/A') }
+                ]
+            }
+        ],
+        narration: joinSentences([
+            `${name} operates in the ${snapshot.industry || 'stated'} industry and has been in business for ${snapshot.yearsInBusiness ?? 'an unknown number of'} years`,
+            `It employs ${snapshot.employees ?? 'an undisclosed number of'} people and is headquartered in ${snapshot.headquarters || 'an undisclosed location'}`,
+            snapshot.creditRating && `Its current credit rating is ${snapshot.creditRating}`
+        ])
+    };
+}
+
+function financialMetricsScene(analysis) {
+    const financials = analysis.financialHealth;
+    if (!financials) return null;
+
+    return {
+        id: 'financial_health',
+        components: [
+            { type: 'title', text: 'Financial Health' },
+            {
+                type: 'metric_card',
+                label: 'Revenue',
+                value: String(financials.revenue ?? 'N/A'),
+                trend: trendFromGrowth(financials.revenueGrowth)
+            },
+            {
+                type: 'metric_card',
+                label: 'EBITDA',
+                value: String(financials.ebitda ?? 'N/A'),
+                trend: trendFromSeries(chartablePoints(financials.profitTrend))
+            }
+        ],
+        narration: joinSentences([
+            `Revenue stands at ${financials.revenue || 'an undisclosed level'}${financials.revenueGrowth ? `, with growth of ${financials.revenueGrowth}` : ''}`,
+            `EBITDA is ${financials.ebitda || 'undisclosed'}${financials.ebitdaMargin ? `, a margin of ${financials.ebitdaMargin}` : ''}`
+        ])
+    };
+}
+
+function keyRatiosScene(analysis) {
+    const financials = analysis.financialHealth;
+    if (!financials) return null;
+
+    return {
+        id: 'key_ratios',
+        components: [
+            { type: 'title', text: 'Key Ratios' },
+            { type: 'data_card', title: 'EBITDA Margin', value: String(financials.ebitdaMargin ?? 'N/A') },
+            { type: 'data_card', title: 'Leverage', value: String(financials.leverage ?? 'N/A') },
+            { type: 'data_card', title: 'Interest Coverage', value: String(financials.interestCoverage ?? 'N/A') }
+        ],
+        narration: joinSentences([
+            `Leverage is ${financials.leverage || 'undisclosed'} and interest coverage is ${financials.interestCoverage || 'undisclosed'}`
+        ])
+    };
+}
+
+function profitTrendScene(analysis) {
+    const series = chartablePoints(analysis.financialHealth?.profitTrend);
+    if (series.length === 0) return null;
+
+    const first = series[0];
+    const last = series[series.length - 1];
+    const direction = { up: 'risen', down: 'fallen', flat: 'held steady' }[trendFromSeries(series)];
+
+    return {
+        id: 'profit_trend',
+        components: [
+            {
+                type: 'bar_chart',
+                title: 'Profit Trend',
+                data: series.map(point => ({ year: String(point.year), value: Number(point.value) }))
+            }
+        ],
+        narration: series.length > 1
+            ? joinSentences([`Profit has ${direction} from ${first.value} in ${first.year} to ${last.value} in ${last.year}`])
+            : joinSentences([`Profit for ${first.year} was ${first.value}`])
+    };
+}
+
+function riskScene(analysis) {
+    const risks = Array.isArray(analysis.riskFactors) ? analysis.riskFactors.filter(Boolean) : [];
+    if (risks.length === 0) return null;
+
+    // Scene renders at most four rows, so lead with the most severe
+    const sorted = [...risks].sort(
+        (a, b) => (SEVERITY_ORDER[a.severity] ?? 3) - (SEVERITY_ORDER[b.severity] ?? 3)
+    );
+    const highCount = risks.filter(r => r.severity === 'high').length;
+
+    return {
+        id: 'risk_factors',
+        components: [
+            { type: 'title', text: 'Key Risks' },
+            {
+                type: 'risk_table',
+                risks: sorted.map(risk => ({
+                    factor: String(risk.factor || UNKNOWN_RISK),
+                    severity: String(risk.severity || UNRATED),
+                    mitigant: String(risk.mitigant ?? '')
+                }))
+            }
+        ],
+        narration: joinSentences([
+            `We identified ${risks.length} risk ${risks.length === 1 ? 'factor' : 'factors'}, ${highCount} of them rated high`,
+            sorted[0].factor && (sorted[0].mitigant
+                ? `The most significant is ${sorted[0].factor}, mitigated by ${sorted[0].mitigant}`
+                : `The most significant is ${sorted[0].factor}`)
+        ])
+    };
+}
+
+function covenantScene(analysis) {
+    const covenants = Array.isArray(analysis.covenants) ? analysis.covenants.filter(Boolean) : [];
+    if (covenants.length === 0) return null;
+
+    const breaches = covenants.filter(c => !c.compliant);
+    return {
+        id: 'covenants',
+        components: [
+            { type: 'title', text: 'Covenant Compliance' },
+            {
+                type: 'covenant_list',
+                covenants: covenants.map(covenant => ({
+                    type: String(covenant.type ?? 'Covenant'),
+                    requirement: String(covenant.requirement ?? 'N/A'),
+                    status: String(covenant.currentStatus ?? 'N/A'),
+                    compliant: Boolean(covenant.compliant)
+                }))
+            }
+        ],
+        narration: breaches.length === 0
+            ? joinSentences([`The borrower is compliant with all ${covenants.length} tested covenants`])
+            : joinSentences([
+                `${covenants.length - breaches.length} of ${covenants.length} covenants are compliant`,
+                `Attention is required on ${breaches.map(c => c.type || 'an unnamed covenant').join(' and ')}`
+            ])
+    };
+}
+
+function esgScene(analysis) {
+    const esg = analysis.esgIndicators;
+    if (!esg) return null;
+
+    return {
+        id: 'esg',
+        components: [
+            { type: 'title', text: 'ESG Profile' },
+            {
+                type: 'esg_scores',
+                scores: {
+                    environmental: String(esg.environmental?.score ?? 'N/A'),
+                    social: String(esg.social?.score ?? 'N/A'),
+                    governance: String(esg.governance?.score ?? 'N/A')
+                }
+            }
+        ],
+        narration: joinSentences([
+            `On ESG, the borrower scores ${esg.environmental?.score || 'N/A'} for environmental, ${esg.social?.score || 'N/A'} for social and ${esg.governance?.score || 'N/A'} for governance`
+        ])
+    };
+}
+
+function recommendationScene(analysis) {
+    const recommendation = analysis.recommendation;
+    // A recommendation scene without a decision has nothing to recommend
+    if (!recommendation?.decision) return null;
+
+    const conditions = Array.isArray(recommendation.conditions) ? recommendation.conditions.filter(Boolean).map(String) : [];
+    return {
+        id: 'recommendation',
+        components: [
+            {
+                type: 'recommendation',
+                decision: String(recommendation.decision),
+                rationale: recommendation.rationale || '',
+                ...(conditions.length > 0 && { conditions })
+            }
+        ],
+        narration: joinSentences([
+            `Our recommendation is ${DECISION_PHRASES[recommendation.decision] || recommendation.decision}`,
+            recommendation.rationale,
+            conditions.length > 0 && `This is subject to ${conditions.length} ${conditions.length === 1 ? 'condition' : 'conditions'}`
+        ])
+    };
+}
+
+function confidenceScene(analysis) {
+    const metadata = analysis.metadata;
+    if (!metadata) return null;
+
+    return {
+        id: 'confidence',
+        components: [
+            {
+                type: 'confidence_indicator',
+                status: String(metadata.status || UNKNOWN_STATUS),
+                confidence: String(metadata.confidence || UNKNOWN_CONFIDENCE),
+                source: metadata.analystOverride ? 'Analyst override' : 'Automated loan analysis'
+            }
+        ],
+        narration: joinSentences([
+            `This analysis is ${metadata.status === 'COMPLETE' ? 'complete' : 'based on insufficient data'}, with ${String(metadata.confidence || 'unknown').toLowerCase()} confidence`
+        ])
+    };
+}
+
+const SCENE_BUILDERS = [
+    overviewScene,
+    borrowerScene,
+    financialMetricsScene,
+    keyRatiosScene,
+    profitTrendScene,
+    riskScene,
+    covenantScene,
+    esgScene,
+    recommendationScene,
+    confidenceScene
+];
+
+function buildManifestFromAnalysis(analysis, { loanId } = {}) {
+    if (!analysis || typeof analysis !== 'object') return null;
+
+    let start = 0;
+    const scenes = SCENE_BUILDERS
+        .map(build => build(analysis))
+        .filter(Boolean)
+        .map(({ id, components, narration }) => {
+            const duration = estimateDuration(narration);
+            const scene = {
+                id,
+                start,
+                duration,
+                narration: { text: narration },
+                visuals: { layout: 'centered', components }
+            };
+            start += duration;
+            return scene;
+        });
+
+    return {
+        meta: {
+            loan_id: loanId || 'unknown',
+            version: '1.0',
+            theme: 'institutional-dark',
+            resolution: '1920x1080',
+            fps: 30
+        },
+        scenes
+    };
+}
+
+module.exports = { buildManifestFromAnalysis };
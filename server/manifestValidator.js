@@ -0,0 +1,580 @@
+// Schema validation for incoming VideoManifests.
+// The schemas below mirror remotion/types.ts — keep the two in sync when adding fields or components.
+//
+// strict:  the manifest must match VideoManifest exactly; every mismatch is an error.
+// lenient: aliases and defaults from older AI output are accepted, scalar types are coerced
+//          where it is lossless, and each fix is reported as a warning. Anything that cannot
+//          be coerced (unknown component types, non-numeric chart values...) is still an error.
+
+const { TTS_PROVIDERS } = require('./tts');
+const { TIMING_POLICIES } = require('./sceneTiming');
+const { IMAGE_FORMATS, ANIMATED_FORMATS } = require('./previews');
+const { createIssue } = require('./issues');
+const { resolveSceneBindings } = require('./bindings');
+const { UI_LANGUAGES, canonicalLocale, localeLanguage } = require('./locale');
+
+const VALIDATION_MODES = ['strict', 'lenient'];
+
+const DEFAULT_META = {
+    loan_id: 'unknown',
+    version: '1.0',
+    theme: 'institutional-dark',
+    resolution: '1920x1080',
+    fps: 30
+};
+
+// Must match THEMES in remotion/themes.ts
+const THEMES = ['institutional-dark', 'institutional-light', 'high-contrast'];
+
+// Must match RESOLUTION_PRESETS in remotion/resolution.ts
+const RESOLUTION_PRESETS = ['16:9', '9:16', '1:1', '4K'];
+// Custom sizes need even dimensions; H.264 cannot encode odd widths or heights
+const RESOLUTION_PATTERN = new RegExp(`^(${RESOLUTION_PRESETS.join('|')}|[1-9]\\d*[02468]x[1-9]\\d*[02468])$`, 'i');
+
+// Must match LAYOUTS in remotion/layouts.ts
+const LAYOUTS = ['centered', 'split', 'grid-2x2', 'hero-with-sidebar', 'title-over-full-bleed-chart'];
+// Must match CHART_TYPES and HEADING_TYPES in remotion/layouts.ts
+const CHART_TYPES = ['bar_chart', 'line_chart', 'area_chart', 'waterfall', 'donut'];
+const HEADING_TYPES = ['title', 'subtitle'];
+
+// Must match TRANSITION_TYPES in remotion/transitions.tsx
+const TRANSITION_TYPES = ['none', 'crossfade', 'slide', 'wipe', 'push'];
+
+// Language, then optional script/region/variant subtags; Intl has the final say in checkLocale
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+// Brand colours are mixed with transparency by withAlpha, which only reads #rgb and #rrggbb
+// Must match withAlpha in remotion/themes.ts
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+// Logos are fetched by the renderer, so only absolute web URLs
+const HTTP_URL_PATTERN = /^https?:\/\/[^\s/?#]+([/?#]\S*)?$/i;
+
+const DEFAULT_SCENE_DURATION = 10;
+const DEFAULT_LAYOUT = 'centered';
+
+// Schema builders
+const string = (opts = {}) => ({ kind: 'string', ...opts });
+const number = (opts = {}) => ({ kind: 'number', ...opts });
+const boolean = () => ({ kind: 'boolean' });
+const enumOf = values => ({ kind: 'enum', values });
+const arrayOf = of => ({ kind: 'array', of });
+const shape = fields => ({ kind: 'object', fields });
+const oneOf = (...options) => ({ kind: 'union', options });
+const optional = schema => ({ ...schema, optional: true });
+// Explicit null is meaningful (e.g. "no logo") and is kept rather than treated as missing
+const nullable = schema => ({ ...schema, nullable: true });
+const withDefault = (schema, value) => ({ ...schema, default: value });
+
+const TTS_SCHEMA = shape({
+    provider: optional(enumOf(TTS_PROVIDERS)),
+    voice: optional(string()),
+    speed: optional(number({ min: 0, exclusiveMin: true }))
+});
+
+const TIMING_SCHEMA = shape({
+    policy: optional(enumOf(TIMING_POLICIES)),
+    padding: optional(number({ min: 0 }))
+});
+
+const TRANSITION_SCHEMA = shape({
+    type: optional(enumOf(TRANSITION_TYPES)),
+    duration: optional(number({ min: 0 })),
+    direction: optional(enumOf(['from-left', 'from-right', 'from-top', 'from-bottom']))
+});
+
+const PREVIEWS_SCHEMA = shape({
+    poster: optional(shape({
+        scene: optional(string()),
+        frame: optional(number({ min: 0 })),
+        format: optional(enumOf(IMAGE_FORMATS))
+    })),
+    thumbnails: optional(shape({
+        enabled: optional(boolean()),
+        width: optional(number({ min: 16 })),
+        format: optional(enumOf(IMAGE_FORMATS))
+    })),
+    animated: optional(shape({
+        format: enumOf(ANIMATED_FORMATS),
+        duration: optional(number({ min: 0, exclusiveMin: true })),
+        width: optional(number({ min: 16 }))
+    }))
+});
+
+const CAPTION_STYLE_SCHEMA = shape({
+    enabled: optional(boolean()),
+    position: optional(enumOf(['top', 'middle', 'bottom'])),
+    maxLines: optional(number({ min: 1 })),
+    highlightColor: optional(string())
+});
+
+// @remotion/captions Caption
+const CAPTION_SCHEMA = shape({
+    text: string(),
+    startMs: number({ min: 0 }),
+    endMs: number({ min: 0 }),
+    timestampMs: optional(number()),
+    confidence: optional(number())
+});
+
+const META_SCHEMA = shape({
+    loan_id: withDefault(string(), DEFAULT_META.loan_id),
+    version: withDefault(string(), DEFAULT_META.version),
+    theme: withDefault(enumOf(THEMES), DEFAULT_META.theme),
+    resolution: withDefault(string({
+        pattern: RESOLUTION_PATTERN,
+        description: `one of: ${RESOLUTION_PRESETS.join(', ')}, or WIDTHxHEIGHT with even dimensions`
+    }), DEFAULT_META.resolution),
+    fps: withDefault(number({ min: 1 }), DEFAULT_META.fps),
+    locale: optional(string({
+        pattern: LOCALE_PATTERN,
+        description: 'a BCP 47 language tag such as "es-MX"'
+    })),
+    tts: optional(TTS_SCHEMA),
+    timing: optional(TIMING_SCHEMA),
+    captions: optional(CAPTION_STYLE_SCHEMA),
+    transition: optional(TRANSITION_SCHEMA),
+    previews: optional(PREVIEWS_SCHEMA)
+});
+
+const HEX_COLOR = string({ pattern: HEX_COLOR_PATTERN, description: 'a hex colour such as "#0f766e"' });
+const HTTP_URL = string({ pattern: HTTP_URL_PATTERN, description: 'an absolute http(s) URL' });
+
+const BRANDING_SCHEMA = shape({
+    logo: optional(nullable(shape({ url: optional(HTTP_URL), asset: optional(string()) }))),
+    wordmark: optional(nullable(string())),
+    primaryColor: optional(HEX_COLOR),
+    accentColor: optional(HEX_COLOR),
+    font: optional(shape({
+        family: string(),
+        source: enumOf(['google', 'local', 'system']),
+        file: optional(string()),
+        weights: optional(arrayOf(string()))
+    }))
+});
+
+const SERIES_SCHEMA = shape({ name: string(), values: arrayOf(number()), color: optional(string()) });
+
+const COMPONENT_SCHEMAS = {
+    title: { text: string() },
+    subtitle: { text: string() },
+    data_card: { title: string(), value: string(), icon: optional(string()) },
+    key_value: { items: arrayOf(shape({ label: string(), value: string() })) },
+    metric_card: { label: string(), value: string(), trend: string() },
+    bar_chart: { title: string(), data: arrayOf(shape({ year: string(), value: number() })) },
+    line_chart: { title: string(), labels: arrayOf(string()), series: arrayOf(SERIES_SCHEMA), unit: optional(string()) },
+    area_chart: { title: string(), labels: arrayOf(string()), series: arrayOf(SERIES_SCHEMA), unit: optional(string()) },
+    waterfall: {
+        title: string(),
+        steps: arrayOf(shape({ label: string(), value: number(), total: optional(boolean()) })),
+        unit: optional(string())
+    },
+    donut: {
+        title: string(),
+        segments: arrayOf(shape({ label: string(), value: number({ min: 0 }), color: optional(string()) })),
+        unit: optional(string()),
+        centerLabel: optional(string())
+    },
+    financial_table: {
+        title: optional(string()),
+        columns: arrayOf(string()),
+        rows: arrayOf(shape({ label: string(), values: arrayOf(oneOf(number(), string())), emphasis: optional(boolean()) })),
+        unit: optional(string()),
+        highlights: optional(arrayOf(shape({
+            row: number({ min: 0 }),
+            column: number({ min: 0 }),
+            tone: optional(enumOf(['positive', 'negative', 'warning', 'accent']))
+        })))
+    },
+    risk_table: { risks: arrayOf(shape({ factor: string(), severity: string(), mitigant: string() })) },
+    covenant_list: {
+        covenants: arrayOf(shape({ type: string(), requirement: string(), status: string(), compliant: boolean() }))
+    },
+    esg_scores: { scores: shape({ environmental: string(), social: string(), governance: string() }) },
+    recommendation: {
+        decision: string(),
+        rationale: oneOf(string(), arrayOf(string())),
+        conditions: optional(arrayOf(string()))
+    },
+    confidence_indicator: { status: string(), confidence: string(), source: optional(string()) }
+};
+
+const COMPONENT_TYPES = Object.keys(COMPONENT_SCHEMAS);
+
+// Every series needs one value per label
+function checkSeriesLengths(component, segments, ctx) {
+    if (!Array.isArray(component.labels) || !Array.isArray(component.series)) return;
+    component.series.forEach((series, i) => {
+        if (Array.isArray(series?.values) && series.values.length !== component.labels.length) {
+            report(ctx.errors, [...segments, 'series', i, 'values'],
+                `has ${series.values.length} values but there are ${component.labels.length} labels`);
+        }
+    });
+}
+
+// Every row needs one value per column; highlights outside the table are dropped
+function checkTableShape(component, segments, ctx) {
+    if (!Array.isArray(component.columns) || !Array.isArray(component.rows)) return;
+    component.rows.forEach((row, i) => {
+        if (Array.isArray(row?.values) && row.values.length !== component.columns.length) {
+            report(ctx.errors, [...segments, 'rows', i, 'values'],
+                `has ${row.values.length} values but there are ${component.columns.length} columns`);
+        }
+    });
+    (component.highlights || []).forEach((highlight, i) => {
+        if (highlight?.row >= component.rows.length || highlight?.column >= component.columns.length) {
+            report(ctx.warnings, [...segments, 'highlights', i], 'is outside the table and will be ignored');
+        }
+    });
+}
+
+// Cross-field rules the schemas cannot express
+const COMPONENT_RULES = {
+    line_chart: checkSeriesLengths,
+    area_chart: checkSeriesLengths,
+    financial_table: checkTableShape
+};
+
+const SCENE_SCHEMA = shape({
+    id: string(),
+    start: withDefault(number({ min: 0 }), 0),
+    duration: withDefault(number({ min: 0, exclusiveMin: true }), DEFAULT_SCENE_DURATION),
+    narration: shape({
+        text: withDefault(string(), ''),
+        audioUrl: optional(string()),
+        tts: optional(TTS_SCHEMA),
+        captions: optional(arrayOf(CAPTION_SCHEMA))
+    }),
+    transition: optional(TRANSITION_SCHEMA),
+    visuals: shape({
+        layout: withDefault(enumOf(LAYOUTS), DEFAULT_LAYOUT),
+        components: arrayOf({ kind: 'component' })
+    })
+});
+
+function report(list, segments, reason) {
+    list.push(createIssue(segments, reason));
+}
+
+function isPlainObject(value) {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describe(schema) {
+    if (schema.description) return schema.description;
+    switch (schema.kind) {
+        case 'string': return 'a string';
+        case 'number': return 'a number';
+        case 'boolean': return 'a boolean';
+        case 'enum': return `one of: ${schema.values.join(', ')}`;
+        case 'array': return `an array of ${describe(schema.of).replace(/^an? /, '')}s`;
+        case 'object': return 'an object';
+        case 'component': return 'a visual component';
+        case 'union': return schema.options.map(describe).join(' or ');
+        default: return 'a valid value';
+    }
+}
+
+// Lossless scalar coercions used in lenient mode; returns undefined when not possible
+function coerceScalar(value, kind) {
+    if (kind === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+        return String(value);
+    }
+    if (kind === 'number' && typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value.trim());
+        return Number.isFinite(parsed) ? parsed : undefined;
+    }
+    if (kind === 'boolean' && (value === 'true' || value === 'false')) {
+        return value === 'true';
+    }
+    return undefined;
+}
+
+// Invalid strings with a default fall back to it in lenient mode, like enums
+function checkStringPattern(value, schema, segments, ctx) {
+    if (!schema.pattern || schema.pattern.test(value)) return value;
+    if (ctx.mode === 'lenient' && 'default' in schema) {
+        report(ctx.warnings, segments, `${JSON.stringify(value)} is not ${describe(schema)}; defaulted to ${JSON.stringify(schema.default)}`);
+        return schema.default;
+    }
+    report(ctx.errors, segments, `must be ${describe(schema)}`);
+    return value;
+}
+
+function checkNumberBounds(value, schema, segments, ctx) {
+    if (schema.min === undefined) return;
+    if (schema.exclusiveMin ? value <= schema.min : value < schema.min) {
+        report(ctx.errors, segments, `must be ${schema.exclusiveMin ? 'greater than' : 'at least'} ${schema.min}`);
+    }
+}
+
+function validateValue(value, schema, segments, ctx) {
+    switch (schema.kind) {
+        case 'string':
+        case 'number':
+        case 'boolean': {
+            const ok = schema.kind === 'number'
+                ? typeof value === 'number' && Number.isFinite(value)
+                : typeof value === schema.kind;
+            if (ok) {
+                if (schema.kind === 'number') checkNumberBounds(value, schema, segments, ctx);
+                if (schema.kind === 'string') return checkStringPattern(value, schema, segments, ctx);
+                return value;
+            }
+            if (ctx.mode === 'lenient') {
+                const coerced = coerceScalar(value, schema.kind);
+                if (coerced !== undefined) {
+                    report(ctx.warnings, segments, `was coerced from ${typeof value} to ${schema.kind}`);
+                    if (schema.kind === 'number') checkNumberBounds(coerced, schema, segments, ctx);
+                    if (schema.kind === 'string') return checkStringPattern(coerced, schema, segments, ctx);
+                    return coerced;
+                }
+            }
+            report(ctx.errors, segments, `must be ${describe(schema)}`);
+            return value;
+        }
+
+        case 'enum':
+            if (schema.values.includes(value)) return value;
+            if (ctx.mode === 'lenient' && 'default' in schema) {
+                report(ctx.warnings, segments, `${JSON.stringify(value)} is not ${describe(schema)}; defaulted to ${JSON.stringify(schema.default)}`);
+                return schema.default;
+            }
+            report(ctx.errors, segments, `must be ${describe(schema)}`);
+            return value;
+
+        case 'array': {
+            if (!Array.isArray(value)) {
+                report(ctx.errors, segments, `must be ${describe(schema)}`);
+                return value;
+            }
+            return value.map((item, i) => validateValue(item, schema.of, [...segments, i], ctx));
+        }
+
+        case 'object': {
+            if (!isPlainObject(value)) {
+                report(ctx.errors, segments, 'must be an object');
+                return value;
+            }
+            const result = { ...value };
+            for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+                const fieldSegments = [...segments, key];
+                if (value[key] === null && fieldSchema.nullable) {
+                    result[key] = null;
+                    continue;
+                }
+                if (value[key] === undefined || value[key] === null) {
+                    if (fieldSchema.optional) {
+                        delete result[key];
+                    } else if (ctx.mode === 'lenient' && 'default' in fieldSchema) {
+                        result[key] = fieldSchema.default;
+                        report(ctx.warnings, fieldSegments, `is missing; defaulted to ${JSON.stringify(fieldSchema.default)}`);
+                    } else {
+                        report(ctx.errors, fieldSegments, 'is required');
+                    }
+                    continue;
+                }
+                result[key] = validateValue(value[key], fieldSchema, fieldSegments, ctx);
+            }
+            for (const key of Object.keys(value)) {
+                if (!(key in schema.fields) && !(schema.extraKeys || []).includes(key)) {
+                    report(ctx.warnings, [...segments, key], 'is not a recognised property and will be ignored');
+                }
+            }
+            return result;
+        }
+
+        case 'union': {
+            // First option that validates cleanly wins
+            for (const option of schema.options) {
+                const attempt = { mode: ctx.mode, errors: [], warnings: [] };
+                const result = validateValue(value, option, segments, attempt);
+                if (attempt.errors.length === 0) {
+                    ctx.warnings.push(...attempt.warnings);
+                    return result;
+                }
+            }
+            report(ctx.errors, segments, `must be ${describe(schema)}`);
+            return value;
+        }
+
+        case 'component':
+            return validateComponent(value, segments, ctx);
+
+        default:
+            throw new Error(`Unknown schema kind: ${schema.kind}`);
+    }
+}
+
+function validateComponent(component, segments, ctx) {
+    if (!isPlainObject(component)) {
+        report(ctx.errors, segments, 'must be an object');
+        return component;
+    }
+    if (typeof component.type !== 'string') {
+        report(ctx.errors, [...segments, 'type'], 'is required');
+        return component;
+    }
+    const fields = COMPONENT_SCHEMAS[component.type];
+    if (!fields) {
+        report(
+            ctx.errors,
+            [...segments, 'type'],
+            `"${component.type}" is not a known component type (expected one of: ${COMPONENT_TYPES.join(', ')})`
+        );
+        return component;
+    }
+    const result = validateValue(component, { kind: 'object', fields, extraKeys: ['type'] }, segments, ctx);
+    COMPONENT_RULES[component.type]?.(result, segments, ctx);
+    return result;
+}
+
+// Older AI output shapes that transformManifest used to accept; only applied in lenient mode
+function applySceneAliases(scene, index, segments, ctx) {
+    if (!isPlainObject(scene)) return scene;
+    const result = { ...scene };
+
+    if (result.id === undefined || result.id === null || result.id === '') {
+        result.id = `scene_${index}`;
+        report(ctx.warnings, [...segments, 'id'], `is missing; defaulted to "${result.id}"`);
+    }
+    if (result.start === undefined && result.start_time !== undefined) {
+        result.start = result.start_time;
+        report(ctx.warnings, [...segments, 'start_time'], 'is deprecated; use start');
+    }
+    delete result.start_time;
+
+    if (typeof result.narration === 'string') {
+        result.narration = { text: result.narration };
+        report(ctx.warnings, [...segments, 'narration'], 'was a string; wrapped as { text }');
+    } else if (result.narration === undefined || result.narration === null) {
+        result.narration = { text: '' };
+        report(ctx.warnings, [...segments, 'narration'], 'is missing; scene will be silent');
+    }
+
+    if (Array.isArray(result.components)) {
+        result.visuals = { ...(isPlainObject(result.visuals) ? result.visuals : {}), components: result.components };
+        report(ctx.warnings, [...segments, 'components'], 'should be nested under visuals.components');
+    } else if (result.visuals === undefined || result.visuals === null) {
+        result.visuals = {};
+    }
+    delete result.components;
+
+    if (isPlainObject(result.visuals) && result.visuals.components === undefined) {
+        result.visuals = { ...result.visuals, components: [] };
+        report(ctx.warnings, [...segments, 'visuals', 'components'], 'is missing; scene has no visuals');
+    }
+
+    return result;
+}
+
+// Template strings exist for a few languages; others render with English labels
+function checkLocale(meta, ctx) {
+    // Malformed tags were already reported by the schema
+    if (typeof meta?.locale !== 'string' || !LOCALE_PATTERN.test(meta.locale)) return;
+    if (!canonicalLocale(meta.locale)) {
+        report(ctx.errors, ['meta', 'locale'], `"${meta.locale}" is not a valid language tag`);
+    } else if (!UI_LANGUAGES.includes(localeLanguage(meta.locale))) {
+        report(ctx.warnings, ['meta', 'locale'], `has no template strings for "${localeLanguage(meta.locale)}"; labels will be in English`);
+    }
+}
+
+// Layouts that need components the scene does not have are rendered as centered (see planLayout)
+function checkLayout(scene, segments, ctx) {
+    const layout = scene?.visuals?.layout;
+    if (!Array.isArray(scene?.visuals?.components)) return scene;
+    const body = scene.visuals.components.filter(component => component && !HEADING_TYPES.includes(component.type));
+    const charts = body.filter(component => CHART_TYPES.includes(component.type));
+
+    let reason = null;
+    if (layout === 'split' && (charts.length === 0 || charts.length === body.length)) {
+        reason = 'needs both text and chart components';
+    } else if (layout === 'title-over-full-bleed-chart' && charts.length === 0) {
+        reason = 'needs a chart component';
+    }
+    if (!reason) return scene;
+    report(ctx.warnings, [...segments, 'visuals', 'layout'], `"${layout}" ${reason}; rendered as "${DEFAULT_LAYOUT}"`);
+    return { ...scene, visuals: { ...scene.visuals, layout: DEFAULT_LAYOUT } };
+}
+
+// Renderer-friendly normalisation that is not a schema concern
+function normaliseScene(scene) {
+    const components = (scene.visuals?.components || []).map(component => {
+        if (component?.type === 'recommendation' && Array.isArray(component.rationale)) {
+            return { ...component, rationale: component.rationale.join('. ') };
+        }
+        return component;
+    });
+    return { ...scene, visuals: { ...scene.visuals, components } };
+}
+
+/**
+ * Validates a manifest against the VideoManifest schema, after resolving its bindings against
+ * `analysis` (see server/bindings.js). Returns the (possibly coerced) manifest together with
+ * path-level errors and warnings, and the provenance of its values.
+ * The manifest should only be rendered when `errors` is empty.
+ */
+function validateManifest(input, { mode = 'strict', analysis } = {}) {
+    const ctx = { mode, errors: [], warnings: [] };
+    const provenance = [];
+
+    if (!isPlainObject(input)) {
+        report(ctx.errors, [], 'must be an object');
+        return { manifest: null, errors: ctx.errors, warnings: ctx.warnings, provenance };
+    }
+
+    let meta = input.meta;
+    if ((meta === undefined || meta === null) && mode === 'lenient') {
+        meta = { ...DEFAULT_META };
+        report(ctx.warnings, ['meta'], 'is missing; defaults applied');
+    } else if (meta === undefined || meta === null) {
+        report(ctx.errors, ['meta'], 'is required');
+    }
+    if (meta !== undefined && meta !== null) {
+        meta = validateValue(meta, META_SCHEMA, ['meta'], ctx);
+        checkLocale(meta, ctx);
+    }
+
+    let scenes = input.scenes;
+    if (!Array.isArray(scenes)) {
+        report(ctx.errors, ['scenes'], scenes === undefined ? 'is required' : 'must be an array of scenes');
+        scenes = [];
+    } else if (scenes.length === 0) {
+        report(ctx.errors, ['scenes'], 'must contain at least one scene');
+    }
+
+    scenes = scenes.map((scene, i) => {
+        const segments = ['scenes', i];
+        const aliased = mode === 'lenient' ? applySceneAliases(scene, i, segments, ctx) : scene;
+        const bound = resolveSceneBindings(aliased, analysis, segments, { locale: meta?.locale });
+        ctx.errors.push(...bound.errors);
+        provenance.push(...bound.provenance);
+        return checkLayout(validateValue(bound.scene, SCENE_SCHEMA, segments, ctx), segments, ctx);
+    });
+
+    for (const key of Object.keys(input)) {
+        if (key !== 'meta' && key !== 'scenes') {
+            report(ctx.warnings, [key], 'is not a recognised property and will be ignored');
+        }
+    }
+
+    const manifest = ctx.errors.length === 0
+        ? { meta, scenes: scenes.map(normaliseScene) }
+        : null;
+
+    return { manifest, errors: ctx.errors, warnings: ctx.warnings, provenance };
+}
+
+/**
+ * Validates a branding profile (see Branding in remotion/types.ts).
+ * Same result shape as validateManifest, with the profile as `branding`.
+ */
+function validateBranding(input, { mode = 'strict' } = {}) {
+    const ctx = { mode, errors: [], warnings: [] };
+    const branding = validateValue(input, BRANDING_SCHEMA, ['branding'], ctx);
+    if (branding?.font?.source === 'local' && !branding.font.file) {
+        report(ctx.errors, ['branding', 'font', 'file'], 'is required for local fonts');
+    }
+    return { branding: ctx.errors.length === 0 ? branding : null, errors: ctx.errors, warnings: ctx.warnings };
+}
+
+module.exports = { validateManifest, validateBranding, VALIDATION_MODES, COMPONENT_TYPES };
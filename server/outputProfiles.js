@@ -0,0 +1,151 @@
+// Output profiles a render request can ask for (`outputs`), e.g. ['web', 'audio-only'].
+//
+// Frames are rendered once, into the highest-quality video profile requested (the master);
+// the other video profiles are transcoded from it with ffmpeg. `audio-only` is rendered by
+// Remotion with an audio codec, which mixes the narration without rendering any frames.
+
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+
+const execFileAsync = promisify(execFile);
+
+const OUTPUT_PROFILES = {
+    // Highest quality first; the first requested video profile in this order is the master
+    archive: {
+        extension: 'mov',
+        contentType: 'video/quicktime',
+        render: { codec: 'prores', proResProfile: 'hq' },
+        ffmpeg: {
+            video: ['-c:v', 'prores_ks', '-profile:v', '3'],
+            audio: ['-c:a', 'pcm_s16le']
+        }
+    },
+    web: {
+        extension: 'mp4',
+        contentType: 'video/mp4',
+        render: { codec: 'h264', crf: 23 },
+        ffmpeg: {
+            video: ['-c:v', 'libx264', '-crf', '23', '-pix_fmt', 'yuv420p'],
+            audio: ['-c:a', 'aac', '-b:a', '192k'],
+            muxer: ['-movflags', '+faststart']
+        }
+    },
+    webm: {
+        extension: 'webm',
+        contentType: 'video/webm',
+        render: { codec: 'vp9', crf: 32 },
+        ffmpeg: {
+            video: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0'],
+            audio: ['-c:a', 'libopus', '-b:a', '128k']
+        }
+    },
+    small: {
+        extension: 'mp4',
+        contentType: 'video/mp4',
+        // Short side, i.e. 1280x720 for 16:9 and 720x1280 for 9:16
+        shortSide: 720,
+        render: { codec: 'h264', videoBitrate: '1200k', audioBitrate: '96k' },
+        ffmpeg: {
+            video: ['-c:v', 'libx264', '-b:v', '1200k', '-maxrate', '1500k', '-bufsize', '2400k', '-pix_fmt', 'yuv420p'],
+            audio: ['-c:a', 'aac', '-b:a', '96k'],
+            muxer: ['-movflags', '+faststart']
+        }
+    },
+    'audio-only': {
+        extension: 'mp3',
+        contentType: 'audio/mpeg',
+        audioOnly: true,
+        render: { codec: 'mp3', audioBitrate: '128k' }
+    }
+};
+
+const OUTPUT_PROFILE_NAMES = Object.keys(OUTPUT_PROFILES);
+const DEFAULT_OUTPUTS = ['web'];
+
+/**
+ * Normalises the request's `outputs` (a profile name or a list of them) into a list of
+ * unique names. Returns `{ outputs }`, or `{ error }` naming the first unknown profile.
+ */
+function resolveOutputs(requested) {
+    if (requested === undefined || requested === null) return { outputs: DEFAULT_OUTPUTS };
+    const list = Array.isArray(requested) ? requested : [requested];
+    if (list.length === 0) return { error: 'outputs must name at least one profile' };
+    const unknown = list.find(name => !OUTPUT_PROFILE_NAMES.includes(name));
+    if (unknown !== undefined) {
+        return { error: `Unknown output profile "${unknown}"; expected one of: ${OUTPUT_PROFILE_NAMES.join(', ')}` };
+    }
+    return { outputs: [...new Set(list)] };
+}
+
+/**
+ * Splits the requested profiles into the one rendered from frames (`master`, null when only
+ * audio is wanted), the video profiles transcoded from it (`derived`) and `audio`.
+ */
+function planOutputs(outputs) {
+    const video = OUTPUT_PROFILE_NAMES.filter(name => outputs.includes(name) && !OUTPUT_PROFILES[name].audioOnly);
+    return {
+        master: video[0] || null,
+        derived: video.slice(1),
+        audio: outputs.includes('audio-only')
+    };
+}
+
+// Rounds down to an even number; H.264 cannot encode odd dimensions
+function even(value) {
+    return Math.max(2, Math.floor(value / 2) * 2);
+}
+
+// Frame size a profile is delivered at; never larger than the composition
+function outputSize(name, composition) {
+    const { shortSide } = OUTPUT_PROFILES[name];
+    const factor = shortSide ? Math.min(1, shortSide / Math.min(composition.width, composition.height)) : 1;
+    return {
+        width: factor === 1 ? composition.width : even(composition.width * factor),
+        height: factor === 1 ? composition.height : even(composition.height * factor),
+        scale: factor
+    };
+}
+
+// renderMedia options (codec, quality and scale) for a profile
+function renderOptions(name, composition) {
+    const profile = OUTPUT_PROFILES[name];
+    const { scale } = outputSize(name, composition);
+    return scale === 1 ? { ...profile.render } : { ...profile.render, scale };
+}
+
+/**
+ * Re-encodes the rendered master into another video profile. `signal` aborts ffmpeg when
+ * the job is cancelled.
+ */
+async function transcodeOutput(name, masterPath, outputPath, composition, signal) {
+    const { width, height } = outputSize(name, composition);
+    await execFileAsync(process.env.FFMPEG_BINARY || 'ffmpeg', [
+        '-y', '-i', masterPath,
+        '-vf', `scale=${width}:${height}`,
+        ...OUTPUT_PROFILES[name].ffmpeg.video,
+        ...audioEncodeArgs(name),
+        outputPath
+    ], { signal });
+}
+
+// ffmpeg arguments for a profile's audio track and container, e.g. when the video stream is copied
+function audioEncodeArgs(name) {
+    const { audio, muxer = [] } = OUTPUT_PROFILES[name].ffmpeg;
+    return [...audio, ...muxer];
+}
+
+function outputFile(name) {
+    const { extension, contentType } = OUTPUT_PROFILES[name];
+    return { extension, contentType };
+}
+
+module.exports = {
+    OUTPUT_PROFILE_NAMES,
+    resolveOutputs,
+    planOutputs,
+    outputSize,
+    renderOptions,
+    transcodeOutput,
+    audioEncodeArgs,
+    outputFile
+};
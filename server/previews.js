@@ -0,0 +1,209 @@
+// Poster frame, per-scene thumbnails and an optional animated preview, rendered from the
+// same bundle and composition as the video (manifest `meta.previews`).
+//
+// Stills are taken once a scene has settled: far enough in that its entrance animations
+// and any incoming transition have finished.
+
+const { renderStill, renderMedia, openBrowser } = require('@remotion/renderer');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const fs = require('fs');
+const path = require('path');
+const { createIssue } = require('./issues');
+const { sceneFrames } = require('./sceneTiming');
+
+const execFileAsync = promisify(execFile);
+
+const IMAGE_FORMATS = ['png', 'jpeg'];
+const ANIMATED_FORMATS = ['gif', 'webp'];
+
+const DEFAULT_IMAGE_FORMAT = 'jpeg';
+const DEFAULT_THUMBNAIL_WIDTH = 480;
+const DEFAULT_ANIMATED_WIDTH = 480;
+const DEFAULT_ANIMATED_DURATION = 4;
+// The poster comes from the scene carrying the decision unless the manifest picks another
+const DEFAULT_POSTER_COMPONENT = 'recommendation';
+
+// Fraction of a scene to skip before taking its still
+const SETTLED_SHARE = 0.6;
+// Animated previews keep every second frame (15 fps at 30 fps)
+const ANIMATED_FRAME_STEP = 2;
+const JPEG_QUALITY = 85;
+
+const CONTENT_TYPES = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp'
+};
+
+const EXTENSIONS = { png: 'png', jpeg: 'jpg', gif: 'gif', webp: 'webp' };
+
+function sceneRanges(manifest, fps) {
+    let start = 0;
+    return manifest.scenes.map(scene => {
+        const frames = sceneFrames(scene.duration, fps);
+        const range = { id: scene.id, start, frames };
+        start += frames;
+        return range;
+    });
+}
+
+function settledFrame(range) {
+    return range.start + Math.min(range.frames - 1, Math.round(range.frames * SETTLED_SHARE));
+}
+
+function defaultPosterScene(manifest) {
+    return manifest.scenes.find(scene =>
+        (scene.visuals?.components || []).some(component => component?.type === DEFAULT_POSTER_COMPONENT)
+    ) || manifest.scenes[manifest.scenes.length - 1];
+}
+
+/**
+ * Works out which frames to render for the manifest's (already fitted) scene durations.
+ * Returns `{ plan, warnings }`; a poster scene or frame that does not exist falls back to
+ * the default with a warning rather than failing the render.
+ */
+function planPreviews(manifest) {
+    const settings = manifest.meta.previews || {};
+    const fps = manifest.meta.fps || 30;
+    const ranges = sceneRanges(manifest, fps);
+    const lastFrame = ranges.reduce((acc, range) => acc + range.frames, 0) - 1;
+    const warnings = [];
+
+    const posterSettings = settings.poster || {};
+    let posterFrame = null;
+    if (posterSettings.frame !== undefined) {
+        posterFrame = Math.round(posterSettings.frame);
+        if (posterFrame > lastFrame) {
+            warnings.push(createIssue(['meta', 'previews', 'poster', 'frame'], `is past the last frame (${lastFrame}); using the default poster scene`));
+            posterFrame = null;
+        }
+    }
+    if (posterFrame === null && posterSettings.scene !== undefined) {
+        const range = ranges.find(r => r.id === posterSettings.scene);
+        if (range) {
+            posterFrame = settledFrame(range);
+        } else {
+            warnings.push(createIssue(['meta', 'previews', 'poster', 'scene'], `"${posterSettings.scene}" is not a scene id; using the default poster scene`));
+        }
+    }
+    if (posterFrame === null) {
+        const posterScene = defaultPosterScene(manifest);
+        posterFrame = settledFrame(ranges.find(r => r.id === posterScene.id));
+    }
+
+    const thumbnailSettings = settings.thumbnails || {};
+    const thumbnails = thumbnailSettings.enabled === false
+        ? []
+        : ranges.map(range => ({ sceneId: range.id, frame: settledFrame(range) }));
+
+    // The animated preview starts with the poster scene and is pulled back when it would run off the end
+    let animated = null;
+    if (settings.animated) {
+        const durationFrames = Math.max(1, Math.round((settings.animated.duration ?? DEFAULT_ANIMATED_DURATION) * fps));
+        const sceneStart = ranges.find(r => r.start <= posterFrame && posterFrame < r.start + r.frames).start;
+        const start = Math.max(0, Math.min(sceneStart, lastFrame + 1 - durationFrames));
+        animated = {
+            format: settings.animated.format,
+            width: settings.animated.width || DEFAULT_ANIMATED_WIDTH,
+            frameRange: [start, Math.min(lastFrame, start + durationFrames - 1)]
+        };
+    }
+
+    return {
+        plan: {
+            poster: { frame: posterFrame, format: posterSettings.format || DEFAULT_IMAGE_FORMAT },
+            thumbnails,
+            thumbnailFormat: thumbnailSettings.format || DEFAULT_IMAGE_FORMAT,
+            thumbnailWidth: thumbnailSettings.width || DEFAULT_THUMBNAIL_WIDTH,
+            animated
+        },
+        warnings
+    };
+}
+
+function artifact(filePath, format) {
+    return { path: filePath, extension: EXTENSIONS[format], contentType: CONTENT_TYPES[format] };
+}
+
+// Never upscale: a 480px thumbnail of a 1080px-wide portrait video is still smaller
+function scaleFor(composition, width) {
+    return Math.min(1, width / composition.width);
+}
+
+// ffmpeg re-encodes the GIF Remotion renders as an animated WebP
+async function gifToWebp(inputPath, outputPath) {
+    await execFileAsync(process.env.FFMPEG_BINARY || 'ffmpeg', [
+        '-y', '-i', inputPath, '-c:v', 'libwebp', '-loop', '0', '-quality', '75', outputPath
+    ]);
+}
+
+/**
+ * Renders the planned previews into `outputDir` and resolves with the files written:
+ * `{ poster, thumbnails: [{ sceneId, ...file }], animated }`, where each file is
+ * `{ path, extension, contentType }` and `animated` is null unless requested.
+ * All of them share one browser instead of launching Chromium per still.
+ */
+async function renderPreviews(plan, { composition, serveUrl, inputProps, chromiumOptions, cancelSignal, outputDir }) {
+    fs.mkdirSync(outputDir, { recursive: true });
+    const browser = await openBrowser('chrome', { chromiumOptions });
+    try {
+        const still = (frame, format, output, scale = 1) => renderStill({
+            composition,
+            serveUrl,
+            inputProps,
+            frame,
+            output,
+            imageFormat: format,
+            jpegQuality: format === 'jpeg' ? JPEG_QUALITY : undefined,
+            scale,
+            chromiumOptions,
+            puppeteerInstance: browser,
+            cancelSignal
+        });
+
+        const posterPath = path.join(outputDir, `poster.${EXTENSIONS[plan.poster.format]}`);
+        await still(plan.poster.frame, plan.poster.format, posterPath);
+
+        const thumbnails = [];
+        const thumbnailScale = scaleFor(composition, plan.thumbnailWidth);
+        for (const [i, thumbnail] of plan.thumbnails.entries()) {
+            const thumbnailPath = path.join(outputDir, `thumb-${i}.${EXTENSIONS[plan.thumbnailFormat]}`);
+            await still(thumbnail.frame, plan.thumbnailFormat, thumbnailPath, thumbnailScale);
+            thumbnails.push({ sceneId: thumbnail.sceneId, ...artifact(thumbnailPath, plan.thumbnailFormat) });
+        }
+
+        let animated = null;
+        if (plan.animated) {
+            const gifPath = path.join(outputDir, 'preview.gif');
+            await renderMedia({
+                composition,
+                serveUrl,
+                inputProps,
+                codec: 'gif',
+                outputLocation: gifPath,
+                frameRange: plan.animated.frameRange,
+                everyNthFrame: ANIMATED_FRAME_STEP,
+                numberOfGifLoops: null,
+                scale: scaleFor(composition, plan.animated.width),
+                chromiumOptions,
+                puppeteerInstance: browser,
+                cancelSignal
+            });
+            if (plan.animated.format === 'webp') {
+                const webpPath = path.join(outputDir, 'preview.webp');
+                await gifToWebp(gifPath, webpPath);
+                animated = artifact(webpPath, 'webp');
+            } else {
+                animated = artifact(gifPath, 'gif');
+            }
+        }
+
+        return { poster: artifact(posterPath, plan.poster.format), thumbnails, animated };
+    } finally {
+        await browser.close({ silent: false });
+    }
+}
+
+module.exports = { IMAGE_FORMATS, ANIMATED_FORMATS, planPreviews, renderPreviews };
@@ -0,0 +1,91 @@
+// Recognises repeated render requests (double-clicks, client retries after a timeout) so they
+// reuse the first render instead of starting another.
+//
+// A request's render hash covers everything that changes the rendered output: the validated
+// manifest, the analysis, the resolved branding, the output profiles and the template sources.
+// Requests may also send an `Idempotency-Key` header, scoped to the request's tenant; a key
+// replayed with a different request is rejected rather than silently returning the other render.
+
+const crypto = require('crypto');
+
+// JSON with object keys sorted, so equal values always serialise the same way
+function canonicalJson(value) {
+    if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value)
+            .filter(key => value[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+function renderHash({ manifest, analysis, branding, outputs, templateHash }) {
+    return crypto.createHash('sha256')
+        .update(canonicalJson({
+            manifest,
+            // A missing analysis or branding is the same request as an explicit null
+            analysis: analysis ?? null,
+            branding: branding ?? null,
+            outputs: [...outputs].sort(),
+            templateHash
+        }))
+        .digest('hex');
+}
+
+// Keys are chosen by clients, so two tenants may pick the same one; null without a key
+function scopedIdempotencyKey(key, tenantId) {
+    return key ? JSON.stringify([tenantId ?? null, key]) : null;
+}
+
+// Stable id for the videos row that points a second manifest_id at an existing render, so
+// repeating the request updates the same row; a v4-shaped UUID for uuid columns
+function aliasVideoId(videoId, manifestId) {
+    const hex = crypto.createHash('sha256').update(JSON.stringify([videoId, manifestId])).digest('hex');
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * In-memory index of recent renders by render hash and by idempotency key, each pointing at
+ * a video id. Entries expire after `ttlMs`; older renders are found through the status store.
+ */
+function createRenderIndex({ ttlMs }) {
+    const byHash = new Map();
+    const byKey = new Map();
+
+    const live = (map, id) => {
+        const entry = map.get(id);
+        if (entry && Date.now() - entry.at > ttlMs) {
+            map.delete(id);
+            return null;
+        }
+        return entry || null;
+    };
+
+    return {
+        findByHash(hash) {
+            return live(byHash, hash)?.videoId ?? null;
+        },
+
+        // `{ videoId, hash }` for a key seen before, or null
+        findByKey(key) {
+            const entry = live(byKey, key);
+            return entry ? { videoId: entry.videoId, hash: entry.hash } : null;
+        },
+
+        record(videoId, hash, key) {
+            const at = Date.now();
+            for (const map of [byHash, byKey]) {
+                for (const [id, entry] of map) {
+                    if (at - entry.at > ttlMs) map.delete(id);
+                }
+            }
+            byHash.set(hash, { videoId, at });
+            if (key) byKey.set(key, { videoId, hash, at });
+        }
+    };
+}
+
+module.exports = { canonicalJson, renderHash, scopedIdempotencyKey, aliasVideoId, createRenderIndex };
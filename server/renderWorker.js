@@ -0,0 +1,57 @@
+// Child process started by renderWorkers.js. Renders the frame ranges it is sent, muted, with
+// its own Chromium that is kept open between ranges.
+//
+// Messages in:  { type: 'render', chunkId, ... }, { type: 'cancel' }, { type: 'close' }
+// Messages out: { type: 'progress', chunkId, renderedFrames, encodedFrames },
+//               { type: 'done', chunkId }, { type: 'failed', chunkId, error }
+
+const { renderMedia, openBrowser, makeCancelSignal } = require('@remotion/renderer');
+
+let browser = null;
+let cancelRender = null;
+
+async function closeAndExit() {
+    try {
+        await browser?.close({ silent: false });
+    } finally {
+        process.exit(0);
+    }
+}
+
+async function render({ chunkId, frameRange, outputLocation, composition, serveUrl, inputProps, options, concurrency, chromiumOptions }) {
+    const { cancelSignal, cancel } = makeCancelSignal();
+    cancelRender = cancel;
+    try {
+        browser = browser || await openBrowser('chrome', { chromiumOptions });
+        await renderMedia({
+            composition,
+            serveUrl,
+            ...options,
+            frameRange,
+            muted: true,
+            outputLocation,
+            inputProps,
+            concurrency,
+            cancelSignal,
+            chromiumOptions,
+            puppeteerInstance: browser,
+            onProgress: ({ renderedFrames, encodedFrames }) => {
+                process.send({ type: 'progress', chunkId, renderedFrames, encodedFrames });
+            }
+        });
+        process.send({ type: 'done', chunkId });
+    } catch (err) {
+        process.send({ type: 'failed', chunkId, error: err.message });
+    } finally {
+        cancelRender = null;
+    }
+}
+
+process.on('message', message => {
+    if (message.type === 'render') render(message);
+    else if (message.type === 'cancel') cancelRender?.();
+    else if (message.type === 'close') closeAndExit();
+});
+
+// The coordinator went away; do not leave Chromium running
+process.on('disconnect', closeAndExit);
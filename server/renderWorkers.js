@@ -0,0 +1,180 @@
+// Spreads a render across local worker processes (renderWorker.js), each with its own Chromium.
+// Frame ranges are split into chunks of at least RENDER_MIN_CHUNK_FRAMES (default 90) so every
+// worker has work; each chunk is rendered muted and stitched back with ffmpeg by the caller.
+//
+// RENDER_WORKERS (default 1) sets how many workers run at once, each rendering with
+// REMOTION_CONCURRENCY tabs. A failed chunk is retried up to RENDER_CHUNK_RETRIES times
+// (default 2); a worker that crashes is replaced with a fresh one.
+
+const { fork } = require('child_process');
+const path = require('path');
+
+const WORKER_COUNT = Math.max(1, parseInt(process.env.RENDER_WORKERS || '1'));
+const MIN_CHUNK_FRAMES = Math.max(1, parseInt(process.env.RENDER_MIN_CHUNK_FRAMES || '90'));
+const CHUNK_RETRIES = Math.max(0, parseInt(process.env.RENDER_CHUNK_RETRIES || '2'));
+// A worker that does not exit after being closed is killed
+const CLOSE_TIMEOUT_MS = 10000;
+
+const WORKER_PATH = path.join(__dirname, 'renderWorker.js');
+
+/**
+ * Splits an inclusive `[first, last]` frame range into at most `parts` contiguous ranges of at
+ * least MIN_CHUNK_FRAMES frames (except when the whole range is shorter).
+ */
+function splitFrameRange([first, last], parts) {
+    const frames = last - first + 1;
+    const count = Math.max(1, Math.min(parts, Math.floor(frames / MIN_CHUNK_FRAMES)));
+    const ranges = [];
+    let start = first;
+    for (let i = 0; i < count; i++) {
+        // Spread the remainder over the first chunks
+        const length = Math.floor(frames / count) + (i < frames % count ? 1 : 0);
+        ranges.push([start, start + length - 1]);
+        start += length;
+    }
+    return ranges;
+}
+
+// One worker process, started on first use and again after it exits
+function createWorker() {
+    let child = null;
+    let current = null;
+
+    function start() {
+        child = fork(WORKER_PATH);
+        child.on('message', message => {
+            if (!current || message.chunkId !== current.chunkId) return;
+            if (message.type === 'progress') {
+                current.onProgress(message);
+            } else if (message.type === 'done') {
+                current.resolve();
+                current = null;
+            } else if (message.type === 'failed') {
+                current.reject(new Error(message.error));
+                current = null;
+            }
+        });
+        child.on('exit', code => {
+            child = null;
+            if (current) {
+                current.reject(new Error(`Render worker exited with code ${code}`));
+                current = null;
+            }
+        });
+    }
+
+    return {
+        render(chunkId, message, onProgress) {
+            if (!child) start();
+            return new Promise((resolve, reject) => {
+                current = { chunkId, resolve, reject, onProgress };
+                child.send({ type: 'render', chunkId, ...message });
+            });
+        },
+
+        cancel() {
+            if (child?.connected) child.send({ type: 'cancel' });
+        },
+
+        // Resolves once the worker has closed its browser and exited
+        close() {
+            if (!child) return Promise.resolve();
+            const closing = child;
+            return new Promise(resolve => {
+                const timer = setTimeout(() => closing.kill('SIGKILL'), CLOSE_TIMEOUT_MS);
+                closing.once('exit', () => {
+                    clearTimeout(timer);
+                    resolve();
+                });
+                if (closing.connected) closing.send({ type: 'close' });
+                else closing.kill();
+            });
+        }
+    };
+}
+
+/**
+ * Renders `chunks` (`[{ frameRange, outputLocation }]`) muted, in parallel worker processes.
+ * `options` are the codec settings passed to renderMedia. `onProgress` receives
+ * `{ progress, renderedFrames, encodedFrames, totalFrames, etaSeconds }` across all chunks.
+ * Rejects with the last error of a chunk that failed every attempt, or when `signal` aborts.
+ */
+async function renderChunks(chunks, { composition, serveUrl, inputProps, options, concurrency, chromiumOptions, signal, onProgress }) {
+    if (chunks.length === 0) return;
+
+    const frameCount = ([first, last]) => last - first + 1;
+    const totalFrames = chunks.reduce((acc, chunk) => acc + frameCount(chunk.frameRange), 0);
+    const counts = chunks.map(() => ({ renderedFrames: 0, encodedFrames: 0 }));
+    const attempts = chunks.map(() => 0);
+    const pending = chunks.map((chunk, i) => i);
+    const startedAt = Date.now();
+    let failure = null;
+
+    const report = () => {
+        const renderedFrames = counts.reduce((acc, count) => acc + count.renderedFrames, 0);
+        const encodedFrames = counts.reduce((acc, count) => acc + count.encodedFrames, 0);
+        const progress = Math.min(1, encodedFrames / totalFrames);
+        const elapsedMs = Date.now() - startedAt;
+        onProgress?.({
+            progress,
+            renderedFrames,
+            encodedFrames,
+            totalFrames,
+            etaSeconds: progress > 0 ? Math.round((elapsedMs / progress - elapsedMs) / 1000) : null
+        });
+    };
+
+    const workers = Array.from({ length: Math.min(WORKER_COUNT, chunks.length) }, createWorker);
+    const cancelAll = () => workers.forEach(worker => worker.cancel());
+    signal?.addEventListener('abort', cancelAll, { once: true });
+
+    // Each worker takes the next pending chunk until none are left or the render has failed
+    async function drain(worker) {
+        while (pending.length > 0 && !failure && !signal?.aborted) {
+            const i = pending.shift();
+            const chunk = chunks[i];
+            attempts[i]++;
+            try {
+                await worker.render(i, {
+                    frameRange: chunk.frameRange,
+                    outputLocation: chunk.outputLocation,
+                    composition,
+                    serveUrl,
+                    inputProps,
+                    options,
+                    concurrency,
+                    chromiumOptions
+                }, ({ renderedFrames, encodedFrames }) => {
+                    counts[i] = { renderedFrames, encodedFrames };
+                    report();
+                });
+                counts[i] = { renderedFrames: frameCount(chunk.frameRange), encodedFrames: frameCount(chunk.frameRange) };
+                report();
+            } catch (err) {
+                if (signal?.aborted || failure) return;
+                counts[i] = { renderedFrames: 0, encodedFrames: 0 };
+                const [first, last] = chunk.frameRange;
+                if (attempts[i] > CHUNK_RETRIES) {
+                    console.error(`❌ Frames ${first}-${last} failed after ${attempts[i]} attempts: ${err.message}`);
+                    failure = err;
+                    cancelAll();
+                    return;
+                }
+                console.error(`⚠️ Frames ${first}-${last} failed (attempt ${attempts[i]}), retrying: ${err.message}`);
+                pending.push(i);
+            }
+        }
+    }
+
+    try {
+        await Promise.all(workers.map(drain));
+    } finally {
+        signal?.removeEventListener('abort', cancelAll);
+        await Promise.all(workers.map(worker => worker.close()));
+    }
+
+    if (signal?.aborted) throw new Error('Render cancelled');
+    if (failure) throw failure;
+}
+
+module.exports = { WORKER_COUNT, splitFrameRange, renderChunks };
@@ -0,0 +1,109 @@
+// Measures narration audio and fits scene durations to it.
+//
+// Policies (manifest `meta.timing.policy`):
+//   fit  - scene lasts exactly as long as its narration
+//   pad  - narration plus `padding` seconds of breathing room (default)
+//   keep - manifest durations are left alone; mismatches are reported as warnings
+
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const fs = require('fs');
+const { createIssue } = require('./issues');
+
+const execFileAsync = promisify(execFile);
+
+const TIMING_POLICIES = ['fit', 'pad', 'keep'];
+const DEFAULT_POLICY = 'pad';
+const DEFAULT_PADDING = 1;
+
+// Under `keep`, this much silence after the narration is worth a warning
+const DEAD_AIR_THRESHOLD = 3;
+
+// Reads the duration straight from a RIFF/WAVE header; null if the file is not PCM WAV
+function wavDuration(buffer) {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+
+    let byteRate = null;
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+        const chunkId = buffer.toString('ascii', offset, offset + 4);
+        const chunkSize = buffer.readUInt32LE(offset + 4);
+        if (chunkId === 'fmt ') byteRate = buffer.readUInt32LE(offset + 16);
+        if (chunkId === 'data' && byteRate) return chunkSize / byteRate;
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    return null;
+}
+
+// Duration in seconds of a local file or URL, or null when it cannot be measured
+async function probeAudioDuration(source) {
+    if (!/^https?:\/\//.test(source)) {
+        const fromHeader = wavDuration(fs.readFileSync(source));
+        if (fromHeader !== null) return fromHeader;
+    }
+
+    try {
+        const { stdout } = await execFileAsync(process.env.FFPROBE_BINARY || 'ffprobe', [
+            '-v', 'error',
+            '-show_entries', 'format=duration',
+            '-of', 'default=noprint_wrappers=1:nokey=1',
+            source
+        ]);
+        const seconds = parseFloat(stdout.trim());
+        return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+    } catch (err) {
+        return null;
+    }
+}
+
+// Frames a scene occupies; Main.tsx and the renderer must agree on this
+function sceneFrames(duration, fps) {
+    return Math.max(1, Math.round(duration * fps));
+}
+
+function totalFrames(scenes, fps) {
+    return scenes.reduce((acc, scene) => acc + sceneFrames(scene.duration, fps), 0);
+}
+
+/**
+ * Applies the manifest's timing policy given the measured narration length of each scene
+ * (null where a scene has no audio or it could not be measured). Updates `duration` and
+ * `start` on the manifest's scenes in place and returns the warnings raised.
+ */
+function fitSceneDurations(manifest, audioDurations) {
+    const fps = manifest.meta.fps || 30;
+    const policy = manifest.meta.timing?.policy || DEFAULT_POLICY;
+    const padding = manifest.meta.timing?.padding ?? DEFAULT_PADDING;
+    const warnings = [];
+
+    let start = 0;
+    manifest.scenes.forEach((scene, i) => {
+        const audio = audioDurations[i];
+
+        if (audio && policy === 'keep') {
+            if (audio > scene.duration) {
+                warnings.push(createIssue(['scenes', i, 'duration'],
+                    `(${scene.duration}s) is shorter than its narration (${audio.toFixed(2)}s); narration will be cut off`));
+            } else if (scene.duration - audio > DEAD_AIR_THRESHOLD) {
+                warnings.push(createIssue(['scenes', i, 'duration'],
+                    `(${scene.duration}s) leaves ${(scene.duration - audio).toFixed(1)}s of silence after the narration`));
+            }
+        } else if (audio) {
+            const target = policy === 'fit' ? audio : audio + padding;
+            // Whole frames, rounded up so the last syllable is never dropped
+            scene.duration = Math.ceil(target * fps) / fps;
+        } else if (scene.narration?.audioUrl) {
+            warnings.push(createIssue(['scenes', i, 'narration', 'audioUrl'],
+                'could not be measured; keeping the manifest duration'));
+        }
+
+        scene.start = start;
+        start += sceneFrames(scene.duration, fps) / fps;
+    });
+
+    return warnings;
+}
+
+module.exports = { TIMING_POLICIES, probeAudioDuration, fitSceneDurations, sceneFrames, totalFrames };
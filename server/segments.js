@@ -0,0 +1,244 @@
+// Renders the master output one scene at a time, so scenes that did not change are reused from
+// earlier renders. Each scene becomes a muted segment covering exactly its own frames of the
+// full composition, keyed by everything that can change those frames: the scene, the visual
+// settings in `meta` (theme, resolution, fps, captions, transition, locale), the analysis, the branding,
+// the output profile and the template version. A scene that transitions in also shows the end
+// of the scene before it, so that scene is part of its key too.
+//
+// Segments are kept in SEGMENT_CACHE_DIR (default ./data/segments), concatenated with ffmpeg
+// and muxed with the narration. Segments unused for SEGMENT_CACHE_MAX_AGE_DAYS (default 7) are
+// evicted, then the least recently used until the cache fits in SEGMENT_CACHE_MAX_MB
+// (default 2000). Segments held by running jobs are never evicted.
+
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { canonicalJson } = require('./renderDedup');
+const { sceneFrames } = require('./sceneTiming');
+const { renderOptions, audioEncodeArgs, outputFile } = require('./outputProfiles');
+const { WORKER_COUNT, splitFrameRange, renderChunks } = require('./renderWorkers');
+
+const execFileAsync = promisify(execFile);
+
+const CACHE_DIR = process.env.SEGMENT_CACHE_DIR || path.join(__dirname, '..', 'data', 'segments');
+const MAX_AGE_MS = parseFloat(process.env.SEGMENT_CACHE_MAX_AGE_DAYS || '7') * 24 * 60 * 60 * 1000;
+const MAX_BYTES = parseFloat(process.env.SEGMENT_CACHE_MAX_MB || '2000') * 1024 * 1024;
+// Bump to invalidate every segment, e.g. when the way segments are encoded changes
+const CACHE_VERSION = 1;
+// Narration is mixed at this rate regardless of the clips' own
+const AUDIO_SAMPLE_RATE = 48000;
+
+// key -> number of running jobs using the segment
+const held = new Map();
+
+// Must match resolveTransition() in remotion/transitions.tsx: the first scene and hard cuts
+// do not show the previous scene
+function hasIncomingTransition(meta, scene, index) {
+    if (index === 0) return false;
+    const settings = { ...meta.transition, ...scene.transition };
+    return (settings.type || 'none') !== 'none';
+}
+
+// Segments are muted, so where the narration is stored does not change them
+function visualScene(scene) {
+    return scene.narration ? { ...scene, narration: { ...scene.narration, audioUrl: undefined } } : scene;
+}
+
+/**
+ * Splits a manifest (with its final scene durations) into one segment per scene:
+ * `[{ index, sceneId, key, frames, frameRange, path }]`, where `frameRange` is the scene's
+ * inclusive frame range in the full composition.
+ */
+function planSegments(manifest, { analysis, branding, profile, templateHash }) {
+    const { meta } = manifest;
+    const fps = meta.fps || 30;
+    const frames = manifest.scenes.map(scene => sceneFrames(scene.duration, fps));
+    const { extension } = outputFile(profile);
+    const settings = { theme: meta.theme, resolution: meta.resolution, fps, captions: meta.captions, transition: meta.transition, locale: meta.locale };
+
+    let start = 0;
+    return manifest.scenes.map((scene, index) => {
+        const previous = hasIncomingTransition(meta, scene, index)
+            ? { scene: visualScene(manifest.scenes[index - 1]), frames: frames[index - 1] }
+            : null;
+        const key = crypto.createHash('sha256')
+            .update(canonicalJson({
+                version: CACHE_VERSION,
+                templateHash,
+                profile,
+                settings,
+                analysis: analysis ?? null,
+                branding: branding ?? null,
+                scene: visualScene(scene),
+                frames: frames[index],
+                previous
+            }))
+            .digest('hex');
+        const segment = {
+            index,
+            sceneId: scene.id,
+            key,
+            frames: frames[index],
+            frameRange: [start, start + frames[index] - 1],
+            path: path.join(CACHE_DIR, `${key}.${extension}`)
+        };
+        start += frames[index];
+        return segment;
+    });
+}
+
+// Input list for ffmpeg's concat demuxer, written next to `outputPath`
+function writeConcatList(files, outputPath) {
+    const listPath = `${outputPath}.concat.txt`;
+    fs.writeFileSync(listPath, files.map(file => `file '${file.replace(/'/g, "'\\''")}'`).join('\n'));
+    return listPath;
+}
+
+// Joins videos encoded with the same settings, copying the streams
+async function concatVideos(files, outputPath, signal) {
+    const listPath = writeConcatList(files, outputPath);
+    try {
+        await execFileAsync(process.env.FFMPEG_BINARY || 'ffmpeg', [
+            '-y', '-f', 'concat', '-safe', '0', '-i', listPath, '-c', 'copy', outputPath
+        ], { signal });
+    } finally {
+        fs.rmSync(listPath, { force: true });
+    }
+}
+
+/**
+ * Renders the segments that are not cached yet, split into chunks across the render workers
+ * (see renderWorkers.js). Holds every segment of the plan until releaseSegments is called
+ * with their keys. `onProgress` receives `{ progress, renderedFrames, encodedFrames,
+ * totalFrames, etaSeconds }` across the segments being rendered. Resolves with
+ * `{ rendered, reused }` scene counts.
+ */
+async function renderSegments(plan, { composition, serveUrl, inputProps, profile, concurrency, chromiumOptions, signal, onProgress }) {
+    for (const segment of plan) held.set(segment.key, (held.get(segment.key) || 0) + 1);
+
+    const now = new Date();
+    // A scene repeated within the manifest is rendered once
+    const unique = [...new Map(plan.map(segment => [segment.key, segment])).values()];
+    const missing = unique.filter(segment => {
+        if (!fs.existsSync(segment.path)) return true;
+        // The file's mtime is the segment's last use
+        fs.utimesSync(segment.path, now, now);
+        return false;
+    });
+    if (missing.length === 0) return { rendered: 0, reused: unique.length };
+
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+    // Rendered beside the cache entry and moved into place, so partial files are never reused;
+    // unique per call, since concurrent jobs may render the same segment
+    const renderId = crypto.randomUUID();
+    const extension = path.extname(missing[0].path);
+    const tempPath = (segment, part) => `${segment.path}.${renderId}.${part}.tmp${extension}`;
+
+    // Long scenes are split so every worker has a share of the frames
+    const framesToRender = missing.reduce((acc, segment) => acc + segment.frames, 0);
+    const chunkFrames = Math.ceil(framesToRender / WORKER_COUNT);
+    const parts = missing.map(segment => splitFrameRange(segment.frameRange, Math.ceil(segment.frames / chunkFrames))
+        .map((frameRange, part) => ({ frameRange, outputLocation: tempPath(segment, part) })));
+
+    try {
+        await renderChunks(parts.flat(), {
+            composition,
+            serveUrl,
+            inputProps,
+            options: renderOptions(profile, composition),
+            concurrency,
+            chromiumOptions,
+            signal,
+            onProgress
+        });
+
+        for (const [i, segment] of missing.entries()) {
+            const locations = parts[i].map(chunk => chunk.outputLocation);
+            if (locations.length > 1) {
+                // Chunks share the codec settings, so they join without re-encoding
+                await concatVideos(locations, tempPath(segment, 'joined'), signal);
+                fs.renameSync(tempPath(segment, 'joined'), segment.path);
+            } else {
+                fs.renameSync(locations[0], segment.path);
+            }
+        }
+    } finally {
+        for (const [i, segment] of missing.entries()) {
+            for (const chunk of parts[i]) fs.rmSync(chunk.outputLocation, { force: true });
+            fs.rmSync(tempPath(segment, 'joined'), { force: true });
+        }
+    }
+
+    return { rendered: missing.length, reused: unique.length - missing.length };
+}
+
+function releaseSegments(keys) {
+    for (const key of keys) {
+        const count = (held.get(key) || 0) - 1;
+        if (count > 0) held.set(key, count);
+        else held.delete(key);
+    }
+}
+
+/**
+ * Concatenates the segments into `outputPath` and mixes in the narration. `audioSources[i]`
+ * is the clip (file path or URL) for scene i, or null; each clip is cut or padded to its
+ * scene, matching how the composition plays it. `signal` aborts ffmpeg when the job is cancelled.
+ */
+async function assembleSegments(plan, { audioSources, fps, profile, outputPath, signal }) {
+    const listPath = writeConcatList(plan.map(segment => segment.path), outputPath);
+
+    const inputs = ['-f', 'concat', '-safe', '0', '-i', listPath];
+    const filters = [];
+    // Input 0 is the concatenated video
+    let nextInput = 1;
+    plan.forEach((segment, i) => {
+        const seconds = (segment.frames / fps).toFixed(6);
+        if (audioSources[i]) {
+            inputs.push('-i', audioSources[i]);
+            filters.push(`[${nextInput++}:a]aresample=${AUDIO_SAMPLE_RATE},aformat=channel_layouts=stereo,atrim=0:${seconds},apad=whole_dur=${seconds}[a${i}]`);
+        } else {
+            filters.push(`anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=stereo,atrim=0:${seconds}[a${i}]`);
+        }
+    });
+    filters.push(`${plan.map((segment, i) => `[a${i}]`).join('')}concat=n=${plan.length}:v=0:a=1[narration]`);
+
+    try {
+        await execFileAsync(process.env.FFMPEG_BINARY || 'ffmpeg', [
+            '-y', ...inputs,
+            '-filter_complex', filters.join(';'),
+            '-map', '0:v', '-map', '[narration]',
+            '-c:v', 'copy',
+            ...audioEncodeArgs(profile),
+            outputPath
+        ], { signal });
+    } finally {
+        fs.rmSync(listPath, { force: true });
+    }
+}
+
+// Applies the retention policy and size cap
+function pruneSegmentCache() {
+    if (!fs.existsSync(CACHE_DIR)) return;
+
+    const entries = fs.readdirSync(CACHE_DIR)
+        .filter(name => !name.includes('.tmp'))
+        .map(name => {
+            const stat = fs.statSync(path.join(CACHE_DIR, name));
+            return { name, key: name.split('.')[0], bytes: stat.size, lastUsed: stat.mtimeMs };
+        })
+        .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    let totalBytes = entries.reduce((acc, entry) => acc + entry.bytes, 0);
+    const now = Date.now();
+    for (const entry of entries) {
+        if (held.has(entry.key)) continue;
+        if (now - entry.lastUsed <= MAX_AGE_MS && totalBytes <= MAX_BYTES) continue;
+        fs.rmSync(path.join(CACHE_DIR, entry.name), { force: true });
+        totalBytes -= entry.bytes;
+    }
+}
+
+module.exports = { planSegments, renderSegments, releaseSegments, assembleSegments, pruneSegmentCache };
@@ -0,0 +1,54 @@
+// Artifact and job status stores.
+//
+// An artifact store keeps rendered files in named buckets ('videos', 'narration-audio'):
+//   ensureBucket(bucket)                         - best effort; the bucket must be publicly readable
+//   upload(bucket, key, body, { contentType })   - body is a Buffer or a readable stream; resolves with its public URL
+//   exists(bucket, key)                          - resolves with whether the object is stored
+//   publicUrl(bucket, key)                       - the URL upload would resolve with
+//   list(bucket)                                 - resolves with [{ key, updatedAt }], updatedAt a Date
+//   remove(bucket, keys)
+//
+// A status store keeps the `videos` rows the app polls:
+//   upsert(row), update(id, fields), get(id) - `get` resolves with null for unknown ids
+//   findByRenderHash(hash)                    - a completed row whose storage_metadata.render_hash matches, or null
+//
+// ARTIFACT_STORE (supabase, local, s3) and STATUS_STORE (supabase, json) select the backends.
+// Both default to supabase when its environment variables are set, otherwise to local and json
+// so the service runs offline. Adapters are required on selection, so unused SDKs never load.
+
+const supabase = require('./supabase');
+
+const ARTIFACT_STORES = {
+    supabase: options => supabase.createArtifactStore(options),
+    local: options => require('./local').createArtifactStore(options),
+    s3: options => require('./s3').createArtifactStore(options)
+};
+
+const STATUS_STORES = {
+    supabase: options => supabase.createStatusStore(options),
+    json: options => require('./jsonFile').createStatusStore(options)
+};
+
+function pick(registry, kind, requested, fallback) {
+    const name = requested || (supabase.isConfigured() ? 'supabase' : fallback);
+    if (!registry[name]) {
+        throw new Error(`Unknown ${kind} "${name}" (expected one of: ${Object.keys(registry).join(', ')})`);
+    }
+    return name;
+}
+
+/**
+ * Creates the stores selected by the environment. `publicBaseUrl` is where this service is
+ * reachable, for backends that serve their own files. Throws when a selected backend is
+ * missing its configuration.
+ */
+function createStores({ publicBaseUrl }) {
+    const artifactName = pick(ARTIFACT_STORES, 'artifact store', process.env.ARTIFACT_STORE, 'local');
+    const statusName = pick(STATUS_STORES, 'status store', process.env.STATUS_STORE, 'json');
+    return {
+        artifactStore: { name: artifactName, ...ARTIFACT_STORES[artifactName]({ publicBaseUrl }) },
+        statusStore: { name: statusName, ...STATUS_STORES[statusName]({}) }
+    };
+}
+
+module.exports = { createStores };
@@ -0,0 +1,55 @@
+// `videos` rows kept in a single JSON file (STATUS_STORE_PATH, default ./data/videos.json),
+// for offline development. Writes are serialised and replace the file atomically.
+
+const fs = require('fs');
+const path = require('path');
+
+const STORE_PATH = process.env.STATUS_STORE_PATH || path.join(__dirname, '..', '..', 'data', 'videos.json');
+
+function load() {
+    if (!fs.existsSync(STORE_PATH)) return {};
+    return JSON.parse(fs.readFileSync(STORE_PATH, 'utf8'));
+}
+
+function save(rows) {
+    fs.mkdirSync(path.dirname(STORE_PATH), { recursive: true });
+    const tempPath = `${STORE_PATH}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(rows, null, 2));
+    fs.renameSync(tempPath, STORE_PATH);
+}
+
+function createStatusStore() {
+    const rows = load();
+    // Chains writes so concurrent jobs never interleave; a failed write does not block later ones
+    let writing = Promise.resolve();
+    const persist = () => {
+        writing = writing.catch(() => { }).then(() => save(rows));
+        return writing;
+    };
+
+    return {
+        async upsert(row) {
+            rows[row.id] = { ...(rows[row.id] || {}), ...row };
+            await persist();
+        },
+
+        // Like the Supabase adapter, updating an unknown id is a no-op
+        async update(id, fields) {
+            if (!rows[id]) return;
+            rows[id] = { ...rows[id], ...fields };
+            await persist();
+        },
+
+        async get(id) {
+            return rows[id] || null;
+        },
+
+        async findByRenderHash(hash) {
+            return Object.values(rows).find(row =>
+                row.status === 'completed' && row.storage_metadata?.render_hash === hash
+            ) || null;
+        }
+    };
+}
+
+module.exports = { createStatusStore };
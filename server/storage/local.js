@@ -0,0 +1,67 @@
+// Buckets as directories under LOCAL_STORAGE_DIR (default ./data/storage), served by this
+// service at /storage/<bucket>/<key>. For offline development and single-host installs.
+
+const fs = require('fs');
+const path = require('path');
+const { pipeline } = require('stream/promises');
+
+const STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || path.join(__dirname, '..', '..', 'data', 'storage');
+// Mounted in index.js
+const MOUNT_PATH = '/storage';
+
+// Buckets and keys are single path segments, never `..`
+const SEGMENT = /^(?!\.\.?$)[^/\\]+$/;
+
+function filePath(bucket, key) {
+    if (!SEGMENT.test(bucket) || !SEGMENT.test(key)) {
+        throw new Error(`Invalid storage path "${bucket}/${key}"`);
+    }
+    return path.join(STORAGE_DIR, bucket, key);
+}
+
+function createArtifactStore({ publicBaseUrl }) {
+    const publicUrl = (bucket, key) => `${publicBaseUrl}${MOUNT_PATH}/${encodeURIComponent(bucket)}/${encodeURIComponent(key)}`;
+
+    return {
+        directory: STORAGE_DIR,
+        mountPath: MOUNT_PATH,
+
+        async ensureBucket(bucket) {
+            fs.mkdirSync(path.dirname(filePath(bucket, 'probe')), { recursive: true });
+        },
+
+        async upload(bucket, key, body, { contentType }) {
+            const target = filePath(bucket, key);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            if (Buffer.isBuffer(body)) {
+                fs.writeFileSync(target, body);
+            } else {
+                await pipeline(body, fs.createWriteStream(target));
+            }
+            // express.static derives Content-Type from the extension, which matches `contentType`
+            return publicUrl(bucket, key);
+        },
+
+        async exists(bucket, key) {
+            return fs.existsSync(filePath(bucket, key));
+        },
+
+        publicUrl,
+
+        async list(bucket) {
+            const dir = path.dirname(filePath(bucket, 'probe'));
+            if (!fs.existsSync(dir)) return [];
+            return fs.readdirSync(dir, { withFileTypes: true })
+                .filter(entry => entry.isFile())
+                .map(entry => ({ key: entry.name, updatedAt: fs.statSync(path.join(dir, entry.name)).mtime }));
+        },
+
+        async remove(bucket, keys) {
+            for (const key of keys) {
+                fs.rmSync(filePath(bucket, key), { force: true });
+            }
+        }
+    };
+}
+
+module.exports = { createArtifactStore };
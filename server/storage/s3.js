@@ -0,0 +1,106 @@
+// Any S3-compatible service (AWS S3, MinIO, Cloudflare R2...). Every logical bucket is a key
+// prefix in S3_BUCKET, which must allow public reads: Remotion fetches narration from it.
+//
+//   S3_BUCKET             required
+//   S3_ENDPOINT           e.g. http://localhost:9000 for MinIO; AWS when unset
+//   S3_REGION             default us-east-1
+//   S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY   otherwise the default AWS credential chain
+//   S3_FORCE_PATH_STYLE   "true" for MinIO
+//   S3_PUBLIC_URL         base URL for object links, when it differs from the endpoint (e.g. a CDN)
+
+const {
+    S3Client, HeadBucketCommand, CreateBucketCommand, HeadObjectCommand, ListObjectsV2Command, DeleteObjectsCommand
+} = require('@aws-sdk/client-s3');
+const { Upload } = require('@aws-sdk/lib-storage');
+
+const DEFAULT_REGION = 'us-east-1';
+
+function config() {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) throw new Error('The s3 artifact store needs S3_BUCKET');
+    const region = process.env.S3_REGION || DEFAULT_REGION;
+    const endpoint = process.env.S3_ENDPOINT;
+    const forcePathStyle = process.env.S3_FORCE_PATH_STYLE === 'true';
+    const defaultPublicUrl = endpoint
+        ? (forcePathStyle ? `${endpoint.replace(/\/$/, '')}/${bucket}` : endpoint.replace(/^(https?:\/\/)/, `$1${bucket}.`))
+        : `https://${bucket}.s3.${region}.amazonaws.com`;
+    return {
+        bucket,
+        region,
+        endpoint,
+        forcePathStyle,
+        publicUrl: (process.env.S3_PUBLIC_URL || defaultPublicUrl).replace(/\/$/, '')
+    };
+}
+
+function createArtifactStore() {
+    const { bucket, region, endpoint, forcePathStyle, publicUrl } = config();
+    const credentials = process.env.S3_ACCESS_KEY_ID
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+        : undefined;
+    const client = new S3Client({ region, endpoint, forcePathStyle, credentials });
+    const objectKey = (prefix, key) => `${prefix}/${key}`;
+    const objectUrl = (prefix, key) => `${publicUrl}/${objectKey(prefix, key).split('/').map(encodeURIComponent).join('/')}`;
+
+    return {
+        // Creates S3_BUCKET when it is missing (handy against a fresh MinIO); prefixes need nothing
+        async ensureBucket() {
+            try {
+                await client.send(new HeadBucketCommand({ Bucket: bucket }));
+            } catch (err) {
+                try {
+                    await client.send(new CreateBucketCommand({ Bucket: bucket }));
+                    console.log(`📦 Created S3 bucket: ${bucket}`);
+                } catch (createErr) {
+                    console.log(`⚠️ Bucket check/creation skipped: ${createErr.message}`);
+                }
+            }
+        },
+
+        // Multipart upload, so streams of unknown length work
+        async upload(prefix, key, body, { contentType }) {
+            const Key = objectKey(prefix, key);
+            await new Upload({
+                client,
+                params: { Bucket: bucket, Key, Body: body, ContentType: contentType }
+            }).done();
+            return objectUrl(prefix, key);
+        },
+
+        async exists(prefix, key) {
+            try {
+                await client.send(new HeadObjectCommand({ Bucket: bucket, Key: objectKey(prefix, key) }));
+                return true;
+            } catch (err) {
+                if (err.name === 'NotFound' || err.$metadata?.httpStatusCode === 404) return false;
+                throw err;
+            }
+        },
+
+        publicUrl: objectUrl,
+
+        async list(prefix) {
+            const objects = [];
+            let ContinuationToken;
+            do {
+                const page = await client.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: `${prefix}/`, ContinuationToken }));
+                objects.push(...(page.Contents || []).map(object => ({
+                    key: object.Key.slice(prefix.length + 1),
+                    updatedAt: object.LastModified
+                })));
+                ContinuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+            } while (ContinuationToken);
+            return objects;
+        },
+
+        async remove(prefix, keys) {
+            if (keys.length === 0) return;
+            await client.send(new DeleteObjectsCommand({
+                Bucket: bucket,
+                Delete: { Objects: keys.map(key => ({ Key: objectKey(prefix, key) })) }
+            }));
+        }
+    };
+}
+
+module.exports = { createArtifactStore };
@@ -0,0 +1,122 @@
+// Supabase Storage buckets and the `videos` table
+const { createClient } = require('@supabase/supabase-js');
+
+function credentials() {
+    return {
+        url: process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL,
+        key: process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_DEFAULT_KEY || process.env.SUPABASE_KEY
+    };
+}
+
+function isConfigured() {
+    const { url, key } = credentials();
+    return Boolean(url && key);
+}
+
+// One client shared by both stores
+let client = null;
+
+function getClient() {
+    if (!isConfigured()) {
+        throw new Error('Supabase is selected but SUPABASE_URL / SUPABASE_KEY are not set');
+    }
+    if (!client) {
+        const { url, key } = credentials();
+        client = createClient(url, key);
+    }
+    return client;
+}
+
+// Objects per page when listing a bucket
+const LIST_PAGE_SIZE = 1000;
+
+function createArtifactStore() {
+    const supabase = getClient();
+    const publicUrl = (bucket, key) => supabase.storage.from(bucket).getPublicUrl(key).data.publicUrl;
+
+    return {
+        // Needs service role key privileges; skipped with a log line otherwise
+        async ensureBucket(bucket) {
+            try {
+                const { data: buckets } = await supabase.storage.listBuckets();
+                if (!buckets?.find(b => b.name === bucket)) {
+                    await supabase.storage.createBucket(bucket, { public: true });
+                    console.log(`📦 Created Supabase bucket: ${bucket}`);
+                }
+            } catch (err) {
+                console.log(`⚠️ Bucket check/creation skipped: ${err.message}`);
+            }
+        },
+
+        async upload(bucket, key, body, { contentType }) {
+            const { error } = await supabase.storage
+                .from(bucket)
+                .upload(key, body, {
+                    contentType,
+                    upsert: true,
+                    duplex: 'half'
+                });
+            if (error) throw error;
+            return publicUrl(bucket, key);
+        },
+
+        // storage-js reports a missing object as `data: false` with an error, and throws otherwise
+        async exists(bucket, key) {
+            const { data } = await supabase.storage.from(bucket).exists(key);
+            return data === true;
+        },
+
+        publicUrl,
+
+        // Top level of the bucket only; folders have no id
+        async list(bucket) {
+            const objects = [];
+            for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+                const { data, error } = await supabase.storage.from(bucket).list('', { limit: LIST_PAGE_SIZE, offset });
+                if (error) throw error;
+                objects.push(...data
+                    .filter(item => item.id)
+                    .map(item => ({ key: item.name, updatedAt: new Date(item.updated_at || item.created_at) })));
+                if (data.length < LIST_PAGE_SIZE) return objects;
+            }
+        },
+
+        async remove(bucket, keys) {
+            await supabase.storage.from(bucket).remove(keys);
+        }
+    };
+}
+
+function createStatusStore() {
+    const supabase = getClient();
+    return {
+        async upsert(row) {
+            const { error } = await supabase.from('videos').upsert([row]);
+            if (error) throw error;
+        },
+
+        async update(id, fields) {
+            const { error } = await supabase.from('videos').update(fields).eq('id', id);
+            if (error) throw error;
+        },
+
+        async get(id) {
+            const { data, error } = await supabase.from('videos').select('*').eq('id', id).maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+
+        async findByRenderHash(hash) {
+            const { data, error } = await supabase
+                .from('videos')
+                .select('*')
+                .eq('status', 'completed')
+                .eq('storage_metadata->>render_hash', hash)
+                .limit(1);
+            if (error) throw error;
+            return data?.[0] || null;
+        }
+    };
+}
+
+module.exports = { isConfigured, createArtifactStore, createStatusStore };
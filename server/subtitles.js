@@ -0,0 +1,168 @@
+// Closed-caption and transcript sidecars built from the final scene timings.
+// Cues use word timings when the scene has them, otherwise the narration is split into
+// sentences spread over the spoken part of the scene in proportion to their length.
+
+const MAX_LINE_LENGTH = 42;
+const MAX_CUE_LENGTH = MAX_LINE_LENGTH * 2;
+
+function splitSentences(text) {
+    return (text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [])
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+}
+
+// Breaks text into chunks that fit on a two-line cue
+function chunkText(text) {
+    const chunks = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (current && current.length + 1 + word.length > MAX_CUE_LENGTH) {
+            chunks.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+function wrapLines(text) {
+    if (text.length <= MAX_LINE_LENGTH) return text;
+    // Break at the space closest to the middle for balanced lines
+    const middle = Math.floor(text.length / 2);
+    const before = text.lastIndexOf(' ', middle);
+    const after = text.indexOf(' ', middle);
+    const breakAt = before === -1 ? after : after === -1 ? before : (middle - before <= after - middle ? before : after);
+    return breakAt === -1 ? text : `${text.slice(0, breakAt)}\n${text.slice(breakAt + 1)}`;
+}
+
+function cuesFromWords(words, offsetMs) {
+    const cues = [];
+    let group = [];
+
+    const flush = () => {
+        if (group.length === 0) return;
+        cues.push({
+            startMs: offsetMs + group[0].startMs,
+            endMs: offsetMs + group[group.length - 1].endMs,
+            text: group.map(w => w.text.trim()).join(' ')
+        });
+        group = [];
+    };
+
+    for (const word of words) {
+        const length = group.reduce((acc, w) => acc + w.text.trim().length + 1, 0) + word.text.trim().length;
+        if (group.length > 0 && length > MAX_CUE_LENGTH) flush();
+        group.push(word);
+        if (/[.!?]["')\]]*$/.test(word.text.trim())) flush();
+    }
+    flush();
+    return cues;
+}
+
+function cuesFromText(text, startMs, spokenMs) {
+    const chunks = splitSentences(text).flatMap(chunkText);
+    const totalChars = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
+
+    let cursor = startMs;
+    return chunks.map(chunk => {
+        const duration = (chunk.length / totalChars) * spokenMs;
+        const cue = { startMs: Math.round(cursor), endMs: Math.round(cursor + duration), text: chunk };
+        cursor += duration;
+        return cue;
+    });
+}
+
+/**
+ * Builds numbered cues for the whole video. `audioDurations` holds the measured narration
+ * length per scene (null when unknown, in which case the full scene duration is used).
+ */
+function buildCues(manifest, audioDurations = []) {
+    const cues = [];
+    manifest.scenes.forEach((scene, i) => {
+        const text = scene.narration?.text?.trim();
+        if (!text) return;
+
+        const startMs = scene.start * 1000;
+        const sceneMs = scene.duration * 1000;
+        const spokenMs = Math.min(sceneMs, (audioDurations[i] || scene.duration) * 1000);
+
+        const sceneCues = scene.narration.captions?.length
+            ? cuesFromWords(scene.narration.captions, startMs)
+            : cuesFromText(text, startMs, spokenMs);
+
+        sceneCues.forEach(cue => {
+            // Never let a cue run into the next scene
+            cues.push({ ...cue, endMs: Math.min(cue.endMs, startMs + sceneMs), sceneId: scene.id });
+        });
+    });
+    return cues.map((cue, i) => ({ index: i + 1, ...cue }));
+}
+
+function formatTimestamp(ms, separator) {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor((total % 3600000) / 60000);
+    const seconds = Math.floor((total % 60000) / 1000);
+    const millis = total % 1000;
+    const pad = (n, width = 2) => String(n).padStart(width, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function toSrt(cues) {
+    return cues
+        .map(cue => `${cue.index}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${wrapLines(cue.text)}\n`)
+        .join('\n');
+}
+
+function toVtt(cues) {
+    const body = cues
+        .map(cue => `${cue.index}\n${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}\n${wrapLines(cue.text)}\n`)
+        .join('\n');
+    return `WEBVTT\n\n${body}`;
+}
+
+function toTranscriptText(manifest) {
+    return manifest.scenes
+        .map(scene => scene.narration?.text?.trim())
+        .filter(Boolean)
+        .join('\n\n') + '\n';
+}
+
+function toTranscriptJson(manifest, cues) {
+    return {
+        loan_id: manifest.meta.loan_id,
+        scenes: manifest.scenes
+            .filter(scene => scene.narration?.text?.trim())
+            .map(scene => ({
+                id: scene.id,
+                start: scene.start,
+                end: scene.start + scene.duration,
+                text: scene.narration.text.trim(),
+                cues: cues
+                    .filter(cue => cue.sceneId === scene.id)
+                    .map(({ startMs, endMs, text }) => ({ start: startMs / 1000, end: endMs / 1000, text }))
+            }))
+    };
+}
+
+/**
+ * All sidecar files for a rendered manifest, keyed by artifact name.
+ * Each entry is `{ extension, contentType, body }`.
+ */
+function buildSidecars(manifest, audioDurations) {
+    const cues = buildCues(manifest, audioDurations);
+    return {
+        srt: { extension: 'srt', contentType: 'application/x-subrip', body: toSrt(cues) },
+        vtt: { extension: 'vtt', contentType: 'text/vtt; charset=utf-8', body: toVtt(cues) },
+        transcript_txt: { extension: 'transcript.txt', contentType: 'text/plain; charset=utf-8', body: toTranscriptText(manifest) },
+        transcript_json: {
+            extension: 'transcript.json',
+            contentType: 'application/json',
+            body: JSON.stringify(toTranscriptJson(manifest, cues), null, 2)
+        }
+    };
+}
+
+module.exports = { buildSidecars };
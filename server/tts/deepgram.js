@@ -0,0 +1,37 @@
+const { createClient } = require('@deepgram/sdk');
+
+const DEFAULT_VOICE = 'aura-2-odysseus-en';
+// Default voice per language for meta.locale; Aura-2 has no Arabic voices
+const LOCALE_VOICES = {
+    en: DEFAULT_VOICE,
+    es: 'aura-2-nestor-es',
+    fr: 'aura-2-hector-fr'
+};
+
+// Created on first use so the service can start without a Deepgram key
+let client = null;
+
+function getClient() {
+    if (!process.env.DEEPGRAM_API_KEY) {
+        throw new Error('DEEPGRAM_API_KEY is not set; choose another TTS provider');
+    }
+    if (!client) client = createClient(process.env.DEEPGRAM_API_KEY);
+    return client;
+}
+
+async function synthesize(text, { voice, speed }) {
+    const options = { model: voice || DEFAULT_VOICE };
+    // Aura-2 accepts a speed multiplier; omit it at the default to keep requests unchanged
+    if (speed && speed !== 1) options.speed = speed;
+
+    const response = await getClient().speak.request({ text }, options);
+    const stream = await response.getStream();
+    if (!stream) return null;
+
+    const chunks = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+
+    return { data: Buffer.concat(chunks), contentType: 'audio/mpeg', extension: 'mp3' };
+}
+
+module.exports = { name: 'deepgram', defaultVoice: DEFAULT_VOICE, localeVoices: LOCALE_VOICES, synthesize };
@@ -0,0 +1,38 @@
+// Offline narration through espeak-ng (or espeak), for local development without a Deepgram key.
+// Voice names are espeak voices, e.g. "en-us", "en-gb", "es".
+
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_VOICE = 'en-us';
+// Default voice per locale or language for meta.locale
+const LOCALE_VOICES = {
+    en: DEFAULT_VOICE,
+    'en-GB': 'en-gb',
+    es: 'es',
+    'es-MX': 'es-419',
+    fr: 'fr-fr',
+    ar: 'ar'
+};
+const BASE_WORDS_PER_MINUTE = 175;
+
+async function synthesize(text, { voice, speed }) {
+    const binary = process.env.ESPEAK_BINARY || 'espeak-ng';
+    const outputPath = path.join(os.tmpdir(), `espeak_${crypto.randomUUID()}.wav`);
+    const wordsPerMinute = Math.round(BASE_WORDS_PER_MINUTE * (speed || 1));
+
+    try {
+        await execFileAsync(binary, ['-v', voice || DEFAULT_VOICE, '-s', String(wordsPerMinute), '-w', outputPath, text]);
+        return { data: fs.readFileSync(outputPath), contentType: 'audio/wav', extension: 'wav' };
+    } finally {
+        fs.rmSync(outputPath, { force: true });
+    }
+}
+
+module.exports = { name: 'espeak', defaultVoice: DEFAULT_VOICE, localeVoices: LOCALE_VOICES, synthesize };
@@ -0,0 +1,75 @@
+// Text-to-speech provider registry.
+// A provider exposes `synthesize(text, { voice, speed })` and resolves with
+// `{ data: Buffer, contentType, extension, words? }`, or null when it produces no audio.
+// `words` are optional word timings in @remotion/captions format, when the provider knows them.
+// `localeVoices` optionally maps locales or languages to the voice used for meta.locale.
+
+const deepgram = require('./deepgram');
+const espeak = require('./espeak');
+const tone = require('./tone');
+const silent = require('./silent');
+const { canonicalLocale, localeLanguage } = require('../locale');
+
+const PROVIDERS = { deepgram, espeak, tone, silent };
+const TTS_PROVIDERS = Object.keys(PROVIDERS);
+
+// `silent` is only used when chosen: a deploy that loses its Deepgram key must fail loudly
+// rather than ship videos without narration
+function defaultProviderName() {
+    return process.env.TTS_PROVIDER || 'deepgram';
+}
+
+// Checks the environment's default provider at startup; returns an error message, or null
+function checkTtsConfig() {
+    const providerName = defaultProviderName();
+    if (!PROVIDERS[providerName]) {
+        return `Unknown TTS_PROVIDER "${providerName}" (expected one of: ${TTS_PROVIDERS.join(', ')})`;
+    }
+    if (providerName === 'deepgram' && !process.env.DEEPGRAM_API_KEY) {
+        return 'DEEPGRAM_API_KEY is not set; set it or choose another TTS_PROVIDER (TTS_PROVIDER=silent renders without narration)';
+    }
+    return null;
+}
+
+// The provider's voice for a locale: region-specific (e.g. "es-MX") first, then the language's.
+// Undefined when the locale is unset or the provider has no voice for it.
+function localeVoice(provider, locale) {
+    const tag = locale && canonicalLocale(locale);
+    if (!tag || !provider.localeVoices) return undefined;
+    return provider.localeVoices[tag] || provider.localeVoices[localeLanguage(tag)];
+}
+
+// Providers without voices (tone, silent) suit every locale
+function hasLocaleVoice(providerName, locale) {
+    const provider = PROVIDERS[providerName];
+    return !provider?.localeVoices || !locale || localeVoice(provider, locale) !== undefined;
+}
+
+// Scene settings override manifest settings, which override the locale's voice and then the
+// environment defaults
+function resolveTtsSettings(meta, scene) {
+    const manifestTts = meta?.tts || {};
+    const sceneTts = scene?.narration?.tts || {};
+    const providerName = sceneTts.provider || manifestTts.provider || defaultProviderName();
+    const provider = PROVIDERS[providerName];
+    if (!provider) {
+        throw new Error(`Unknown TTS provider "${providerName}" (expected one of: ${TTS_PROVIDERS.join(', ')})`);
+    }
+
+    // A voice chosen for another provider is meaningless here, so only inherit it from the same provider
+    const inheritedVoice = providerName === (manifestTts.provider || defaultProviderName())
+        ? manifestTts.voice
+        : undefined;
+
+    return {
+        provider: providerName,
+        voice: sceneTts.voice || inheritedVoice || localeVoice(provider, meta?.locale) || provider.defaultVoice,
+        speed: sceneTts.speed || manifestTts.speed || 1
+    };
+}
+
+async function synthesize(text, settings) {
+    return PROVIDERS[settings.provider].synthesize(text, settings);
+}
+
+module.exports = { TTS_PROVIDERS, checkTtsConfig, resolveTtsSettings, hasLocaleVoice, synthesize };
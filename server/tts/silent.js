@@ -0,0 +1,6 @@
+// Produces no audio: scenes render without narration.
+async function synthesize() {
+    return null;
+}
+
+module.exports = { name: 'silent', defaultVoice: null, synthesize };
@@ -0,0 +1,63 @@
+// Test stub: a quiet sine tone lasting roughly as long as the text would take to read.
+// Deterministic and dependency-free, so the whole pipeline runs in tests without network access.
+
+const SAMPLE_RATE = 22050;
+const WORDS_PER_SECOND = 2.5;
+const AMPLITUDE = 0.1;
+
+// Voice selects the pitch in Hz
+const DEFAULT_VOICE = '440';
+
+function encodeWav(samples) {
+    const dataSize = samples.length * 2;
+    const buffer = Buffer.alloc(44 + dataSize);
+
+    buffer.write('RIFF', 0);
+    buffer.writeUInt32LE(36 + dataSize, 4);
+    buffer.write('WAVE', 8);
+    buffer.write('fmt ', 12);
+    buffer.writeUInt32LE(16, 16);         // PCM chunk size
+    buffer.writeUInt16LE(1, 20);          // PCM format
+    buffer.writeUInt16LE(1, 22);          // mono
+    buffer.writeUInt32LE(SAMPLE_RATE, 24);
+    buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+    buffer.writeUInt16LE(2, 32);          // block align
+    buffer.writeUInt16LE(16, 34);         // bits per sample
+    buffer.write('data', 36);
+    buffer.writeUInt32LE(dataSize, 40);
+
+    samples.forEach((sample, i) => buffer.writeInt16LE(Math.round(sample * 32767), 44 + i * 2));
+    return buffer;
+}
+
+// Evenly spaced word timings, so captions can be exercised without whisper.cpp
+function evenWordTimings(words, seconds) {
+    const msPerWord = (seconds * 1000) / words.length;
+    return words.map((word, i) => ({
+        text: i === 0 ? word : ` ${word}`,
+        startMs: Math.round(i * msPerWord),
+        endMs: Math.round((i + 1) * msPerWord),
+        timestampMs: null,
+        confidence: null
+    }));
+}
+
+async function synthesize(text, { voice, speed }) {
+    const words = text.split(/\s+/).filter(Boolean);
+    const seconds = Math.max(1, words.length / WORDS_PER_SECOND / (speed || 1));
+    const frequency = parseFloat(voice || DEFAULT_VOICE) || parseFloat(DEFAULT_VOICE);
+
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = AMPLITUDE * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+
+    return {
+        data: encodeWav(samples),
+        contentType: 'audio/wav',
+        extension: 'wav',
+        words: words.length > 0 ? evenWordTimings(words, seconds) : undefined
+    };
+}
+
+module.exports = { name: 'tone', defaultVoice: DEFAULT_VOICE, synthesize };
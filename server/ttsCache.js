@@ -0,0 +1,189 @@
+// Content-addressed cache for synthesised narration, so re-rendering a manifest does not pay
+// for the same TTS calls again. Clips are keyed by a hash of the normalised text, provider,
+// voice and speed, kept in TTS_CACHE_DIR (default ./data/tts-cache) as `<key>.<ext>` plus a
+// `<key>.json` with the content type and any word timings.
+//
+// Entries unused for TTS_CACHE_MAX_AGE_DAYS (default 30) are evicted, then the least recently
+// used until the cache fits in TTS_CACHE_MAX_MB (default 500). Clips held by running jobs
+// are never evicted.
+//
+// Clips are published to the narration-audio bucket under the same key, uploaded only when the
+// bucket does not have them yet. The bucket gets the same age limit, by upload time, checked at
+// most once per BUCKET_PRUNE_INTERVAL_MS; a clip removed while still cached is uploaded again.
+
+const { synthesize } = require('./tts');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const CACHE_DIR = process.env.TTS_CACHE_DIR || path.join(__dirname, '..', 'data', 'tts-cache');
+const MAX_AGE_MS = parseFloat(process.env.TTS_CACHE_MAX_AGE_DAYS || '30') * 24 * 60 * 60 * 1000;
+const MAX_BYTES = parseFloat(process.env.TTS_CACHE_MAX_MB || '500') * 1024 * 1024;
+// Bump to invalidate every entry, e.g. when a provider starts producing different audio
+const CACHE_VERSION = 1;
+const BUCKET_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Keys per remove call
+const BUCKET_REMOVE_BATCH = 100;
+
+// key -> number of running jobs using the clip
+const held = new Map();
+// key -> synthesis in progress, so concurrent jobs make one provider call
+const inFlight = new Map();
+let lastBucketPrune = 0;
+
+// Whitespace and Unicode composition do not change what is spoken
+function normaliseText(text) {
+    return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+function narrationKey(text, { provider, voice, speed }) {
+    return crypto.createHash('sha256')
+        .update(JSON.stringify([CACHE_VERSION, normaliseText(text), provider, voice, speed]))
+        .digest('hex');
+}
+
+const metaPath = key => path.join(CACHE_DIR, `${key}.json`);
+
+function readEntry(key) {
+    if (!fs.existsSync(metaPath(key))) return null;
+    try {
+        const meta = JSON.parse(fs.readFileSync(metaPath(key), 'utf8'));
+        const data = fs.readFileSync(path.join(CACHE_DIR, meta.fileName));
+        // The metadata file's mtime is the entry's last use
+        const now = new Date();
+        fs.utimesSync(metaPath(key), now, now);
+        return { data, contentType: meta.contentType, extension: meta.extension, words: meta.words };
+    } catch (err) {
+        console.error(`    ⚠️ Unreadable narration cache entry ${key}:`, err.message);
+        return null;
+    }
+}
+
+// The metadata is written last, so an entry only exists once its audio is complete
+function writeEntry(key, audio) {
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+    const fileName = `${key}.${audio.extension}`;
+    const write = (target, body) => {
+        const tempPath = `${target}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, body);
+        fs.renameSync(tempPath, target);
+    };
+    write(path.join(CACHE_DIR, fileName), audio.data);
+    write(metaPath(key), JSON.stringify({
+        fileName,
+        contentType: audio.contentType,
+        extension: audio.extension,
+        words: audio.words,
+        bytes: audio.data.length,
+        createdAt: new Date().toISOString()
+    }));
+}
+
+/**
+ * Same contract as tts.synthesize, through the cache. Resolves with `{ audio, key, hit }`;
+ * `key` names the clip (null when the provider produced no audio) and is held until
+ * passed to releaseNarration.
+ */
+async function synthesizeCached(text, settings) {
+    const key = narrationKey(text, settings);
+    held.set(key, (held.get(key) || 0) + 1);
+
+    const cached = readEntry(key);
+    if (cached) return { audio: cached, key, hit: true };
+
+    if (!inFlight.has(key)) {
+        inFlight.set(key, synthesize(text, settings)
+            .then(audio => {
+                if (audio) writeEntry(key, audio);
+                return audio;
+            })
+            .finally(() => inFlight.delete(key)));
+    }
+    try {
+        const audio = await inFlight.get(key);
+        if (!audio) releaseNarration([key]);
+        return { audio, key: audio ? key : null, hit: false };
+    } catch (err) {
+        releaseNarration([key]);
+        throw err;
+    }
+}
+
+function releaseNarration(keys) {
+    for (const key of keys) {
+        const count = (held.get(key) || 0) - 1;
+        if (count > 0) held.set(key, count);
+        else held.delete(key);
+    }
+}
+
+/**
+ * Applies the retention policy and size cap. `onEvict(fileName)` is called for each clip
+ * removed, so copies elsewhere (the narration-audio bucket) can be removed too.
+ */
+async function pruneNarrationCache(onEvict) {
+    if (!fs.existsSync(CACHE_DIR)) return;
+
+    const entries = fs.readdirSync(CACHE_DIR)
+        .filter(name => name.endsWith('.json'))
+        .map(name => {
+            const key = name.slice(0, -'.json'.length);
+            try {
+                const meta = JSON.parse(fs.readFileSync(metaPath(key), 'utf8'));
+                return { key, fileName: meta.fileName, bytes: meta.bytes, lastUsed: fs.statSync(metaPath(key)).mtimeMs };
+            } catch (err) {
+                return { key, fileName: null, bytes: 0, lastUsed: 0 };
+            }
+        })
+        .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    let totalBytes = entries.reduce((acc, entry) => acc + entry.bytes, 0);
+    const now = Date.now();
+    for (const entry of entries) {
+        if (held.has(entry.key)) continue;
+        if (now - entry.lastUsed <= MAX_AGE_MS && totalBytes <= MAX_BYTES) continue;
+
+        fs.rmSync(metaPath(entry.key), { force: true });
+        if (entry.fileName) fs.rmSync(path.join(CACHE_DIR, entry.fileName), { force: true });
+        totalBytes -= entry.bytes;
+        if (entry.fileName) {
+            try {
+                await onEvict(entry.fileName);
+            } catch (err) {
+                console.error(`⚠️ Could not remove evicted narration ${entry.fileName}:`, err.message);
+            }
+        }
+    }
+}
+
+/**
+ * Stores a clip from synthesizeCached in `bucket` of the artifact store, unless it is there
+ * already. Resolves with `{ url, uploaded }`.
+ */
+async function publishNarration(store, bucket, key, audio) {
+    const fileName = `${key}.${audio.extension}`;
+    if (await store.exists(bucket, fileName)) return { url: store.publicUrl(bucket, fileName), uploaded: false };
+    const url = await store.upload(bucket, fileName, audio.data, { contentType: audio.contentType });
+    return { url, uploaded: true };
+}
+
+/**
+ * Removes clips uploaded to `bucket` more than TTS_CACHE_MAX_AGE_DAYS ago and not held by a
+ * running job. Does nothing when the bucket was checked less than an hour ago, unless `force`.
+ * Resolves with the number of clips removed.
+ */
+async function pruneNarrationBucket(store, bucket, { force = false } = {}) {
+    const now = Date.now();
+    if (!force && now - lastBucketPrune < BUCKET_PRUNE_INTERVAL_MS) return 0;
+    lastBucketPrune = now;
+
+    const expired = (await store.list(bucket))
+        .filter(({ key, updatedAt }) => now - updatedAt.getTime() > MAX_AGE_MS && !held.has(key.replace(/\.[^.]*$/, '')))
+        .map(({ key }) => key);
+    for (let i = 0; i < expired.length; i += BUCKET_REMOVE_BATCH) {
+        await store.remove(bucket, expired.slice(i, i + BUCKET_REMOVE_BATCH));
+    }
+    return expired.length;
+}
+
+module.exports = { synthesizeCached, releaseNarration, pruneNarrationCache, publishNarration, pruneNarrationBucket };
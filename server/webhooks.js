@@ -0,0 +1,229 @@
+// Completion webhooks: a `callback_url` on the render request and/or a webhook stored for the
+// tenant (`tenant_id`) as WEBHOOKS_DIR/<tenant_id>.json, `{ "url": ..., "secret": ... }`.
+//
+// Each target receives one JSON POST when the job completes, fails or is cancelled, signed
+// with HMAC-SHA256 (tenant secret, otherwise WEBHOOK_SECRET):
+//   X-Loanie-Signature: t=<unix seconds>,v1=<hex HMAC of "<t>.<raw body>">
+// Network errors, timeouts, 429 and 5xx responses are retried with exponential backoff;
+// each target's delivery id stays the same across retries so receivers can deduplicate.
+//
+// A `callback_url` comes from the client, so it may not reach loopback, link-local (cloud
+// metadata) or private addresses, by name or once resolved; WEBHOOK_ALLOW_PRIVATE=true lifts
+// this for local development. Tenant webhooks are operator configuration and are trusted.
+
+const crypto = require('crypto');
+const dns = require('dns');
+const fs = require('fs');
+const net = require('net');
+const path = require('path');
+
+const WEBHOOKS_DIR = process.env.WEBHOOKS_DIR || path.join(__dirname, '..', 'webhooks');
+const TENANT_ID = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '2000');
+const ATTEMPT_TIMEOUT_MS = 10000;
+
+// IPv4 ranges a callback may not reach: this network, private, carrier-grade NAT, loopback,
+// link-local, and multicast/reserved
+const BLOCKED_IPV4 = [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+    ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]
+];
+
+function isHttpUrl(value) {
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch (err) {
+        return false;
+    }
+}
+
+function allowPrivate() {
+    return process.env.WEBHOOK_ALLOW_PRIVATE === 'true';
+}
+
+function ipv4ToInt(address) {
+    return address.split('.').reduce((acc, octet) => acc * 256 + Number(octet), 0);
+}
+
+function isPrivateAddress(address) {
+    if (net.isIPv4(address)) {
+        const value = ipv4ToInt(address);
+        return BLOCKED_IPV4.some(([base, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(ipv4ToInt(base) / 2 ** (32 - bits)));
+    }
+    if (!net.isIPv6(address)) return false;
+    const lower = address.toLowerCase();
+    // IPv4-mapped, which URL normalises to hex: ::ffff:192.168.0.1 -> ::ffff:c0a8:1
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+        const [high, low] = mappedHex.slice(1).map(part => parseInt(part, 16));
+        return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+    }
+    // Unspecified, loopback, unique local (fc00::/7) and link-local (fe80::/10)
+    return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+// Checks the host as written; names are checked again once resolved, at delivery
+function isPrivateHost(hostname) {
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
+
+// Resolves `url`'s host and returns an error message when any of its addresses is private
+async function checkResolvedHost(url) {
+    const { hostname } = new URL(url);
+    try {
+        const addresses = await dns.promises.lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+        const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+        return blocked ? `${hostname} resolves to the private address ${blocked.address}` : null;
+    } catch (err) {
+        return `${hostname} could not be resolved (${err.code || err.message})`;
+    }
+}
+
+// `{ webhook }`, with null when the tenant has none, or `{ error }` for a file that cannot be read
+function loadTenantWebhook(tenantId) {
+    if (!TENANT_ID.test(tenantId)) return { webhook: null };
+    const configPath = path.join(WEBHOOKS_DIR, `${tenantId}.json`);
+    if (!fs.existsSync(configPath)) return { webhook: null };
+    try {
+        return { webhook: JSON.parse(fs.readFileSync(configPath, 'utf8')) };
+    } catch (err) {
+        return { error: `Webhook for tenant "${tenantId}" could not be read: ${err.message}` };
+    }
+}
+
+/**
+ * Works out where to deliver the job's outcome. Returns `{ targets: [{ url, secret, source }] }`,
+ * empty when nothing is configured, or `{ error }` when the request cannot be honoured.
+ */
+function resolveWebhookTargets({ callback_url, tenant_id }) {
+    const targets = [];
+
+    if (tenant_id !== undefined) {
+        const { webhook: tenant, error } = loadTenantWebhook(String(tenant_id));
+        if (error) return { error };
+        if (tenant?.url) {
+            if (!isHttpUrl(tenant.url)) return { error: `Webhook for tenant "${tenant_id}" has an invalid url` };
+            const secret = tenant.secret || process.env.WEBHOOK_SECRET;
+            if (!secret) return { error: `Webhook for tenant "${tenant_id}" has no secret and WEBHOOK_SECRET is not set` };
+            targets.push({ url: tenant.url, secret, source: 'tenant' });
+        }
+    }
+
+    if (callback_url !== undefined) {
+        if (typeof callback_url !== 'string' || !isHttpUrl(callback_url)) {
+            return { error: 'callback_url must be an http(s) URL' };
+        }
+        if (!allowPrivate() && isPrivateHost(new URL(callback_url).hostname)) {
+            return { error: 'callback_url must not point to a loopback, link-local or private address' };
+        }
+        if (!process.env.WEBHOOK_SECRET) {
+            return { error: 'callback_url needs WEBHOOK_SECRET to be configured for signing' };
+        }
+        targets.push({ url: callback_url, secret: process.env.WEBHOOK_SECRET, source: 'request' });
+    }
+
+    return { targets };
+}
+
+// `videoId` and `manifestId` stand in for the job's own when it is reused under another request
+function buildWebhookPayload(job, { videoId = job.id, manifestId = job.payload.manifest_id ?? null } = {}) {
+    const result = job.result || {};
+    return {
+        event: `video.${job.state}`,
+        video_id: videoId,
+        manifest_id: manifestId,
+        state: job.state,
+        video_url: result.videoUrl ?? null,
+        duration: result.duration ?? null,
+        outputs: result.outputs ?? null,
+        sidecars: result.sidecars ?? null,
+        previews: result.previews ?? null,
+        warnings: job.payload.warnings || [],
+        error: job.state === 'failed' ? { message: job.error } : null,
+        finished_at: job.finishedAt
+    };
+}
+
+function signPayload(body, secret, timestamp) {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+const isRetryable = status => status === 429 || status >= 500;
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POSTs `payload` to one target, retrying with exponential backoff. Redirects are not followed
+ * and count as not delivered, without a retry. Resolves with the attempt log,
+ * `{ url, source, delivered, attempts: [{ at, status, error, durationMs }] }`; never rejects.
+ */
+async function deliverWebhook(target, payload, deliveryId) {
+    const body = JSON.stringify(payload);
+    const attempts = [];
+
+    // A public name can still resolve to an internal address
+    if (target.source === 'request' && !allowPrivate()) {
+        const blocked = await checkResolvedHost(target.url);
+        if (blocked) {
+            attempts.push({ at: new Date().toISOString(), status: null, error: blocked, durationMs: 0 });
+            console.error(`❌ [${payload.video_id}] Webhook ${payload.event} to ${target.url} was not sent: ${blocked}`);
+            return { url: target.url, source: target.source, delivered: false, attempts };
+        }
+    }
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const startedAt = Date.now();
+        // Signed per attempt so the timestamp stays fresh
+        const timestamp = Math.floor(startedAt / 1000);
+        let status = null;
+        let error = null;
+        try {
+            const response = await fetch(target.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'loanie-video-generator',
+                    'X-Loanie-Event': payload.event,
+                    'X-Loanie-Delivery': deliveryId,
+                    'X-Loanie-Signature': signPayload(body, target.secret, timestamp)
+                },
+                body,
+                // Following a redirect would skip the address checks above, so it counts as a failure
+                redirect: 'manual',
+                signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS)
+            });
+            status = response.status;
+            if (status >= 300 && status < 400) error = `redirected to ${response.headers.get('location') ?? 'an unknown location'}`;
+        } catch (err) {
+            error = err.message;
+        }
+
+        const durationMs = Date.now() - startedAt;
+        attempts.push({ at: new Date(startedAt).toISOString(), status, error, durationMs });
+        const delivered = status !== null && status >= 200 && status < 300;
+        console.log(`${delivered ? '📬' : '⚠️'} [${payload.video_id}] Webhook ${payload.event} -> ${target.url} attempt ${attempt}/${MAX_ATTEMPTS}: ${status ?? error} (${durationMs}ms)`);
+
+        if (delivered) return { url: target.url, source: target.source, delivered: true, attempts };
+        if (status !== null && !isRetryable(status)) break;
+        if (attempt < MAX_ATTEMPTS) await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+
+    console.error(`❌ [${payload.video_id}] Webhook ${payload.event} to ${target.url} was not delivered`);
+    return { url: target.url, source: target.source, delivered: false, attempts };
+}
+
+/**
+ * Delivers the finished job's outcome to each of its targets. Resolves with the delivery logs.
+ */
+async function notifyWebhooks(job, targets, ids) {
+    const payload = buildWebhookPayload(job, ids);
+    return Promise.all(targets.map(target => deliverWebhook(target, payload, crypto.randomUUID())));
+}
+
+module.exports = { resolveWebhookTargets, buildWebhookPayload, signPayload, notifyWebhooks };
@@ -0,0 +1,65 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { resolveSceneBindings } = require('../server/bindings');
+const { validateManifest } = require('../server/manifestValidator');
+const analysis = require('./fixtures/analysis.json');
+
+function scene(components, narration = 'Hello.') {
+    return { id: 'intro', start: 0, duration: 5, narration, visuals: { layout: 'centered', components } };
+}
+
+const sources = provenance => Object.fromEntries(provenance.map(entry => [entry.path, entry.source]));
+
+test('a plain-string bind fills the main value field', () => {
+    const { scene: bound, errors } = resolveSceneBindings(
+        scene([{ type: 'data_card', title: 'Amount', bind: 'loanOverview.amount' }]), analysis, ['scenes', 0]);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(bound.visuals.components[0], { type: 'data_card', title: 'Amount', value: '$25.5M' });
+});
+
+test('narration templates are filled and recorded as template provenance', () => {
+    const { scene: bound, provenance } = resolveSceneBindings(
+        scene([], 'A {{loanOverview.amount}} loan for {{ loanOverview.borrowerName }}.'), analysis, ['scenes', 0]);
+    assert.equal(bound.narration, 'A $25.5M loan for Acme Manufacturing Ltd.');
+    assert.deepEqual(provenance, [{
+        path: 'scenes[0].narration',
+        pointer: '/scenes/0/narration',
+        source: 'template',
+        bindings: ['loanOverview.amount', 'loanOverview.borrowerName']
+    }]);
+});
+
+test('a bound metric card without a trend passes strict validation with a flat trend', () => {
+    const { manifest, errors, provenance } = validateManifest({
+        meta: { loan_id: 'loan-1', version: '1.0', theme: 'institutional-dark', resolution: '16:9', fps: 30 },
+        scenes: [scene([{ type: 'metric_card', label: 'Leverage', bind: 'financialHealth.leverage' }], { text: 'Hello.' })]
+    }, { mode: 'strict', analysis });
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(manifest.scenes[0].visuals.components[0], { type: 'metric_card', label: 'Leverage', value: '3.2x', trend: 'flat' });
+    assert.deepEqual(sources(provenance), {
+        'scenes[0].narration.text': 'literal',
+        'scenes[0].visuals.components[0].value': 'analysis',
+        'scenes[0].visuals.components[0].trend': 'default'
+    });
+});
+
+test('a trend given with the bind is kept', () => {
+    const { scene: bound, provenance } = resolveSceneBindings(
+        scene([{ type: 'metric_card', label: 'Leverage', trend: 'down', bind: 'financialHealth.leverage' }]), analysis, ['scenes', 0]);
+    assert.equal(bound.visuals.components[0].trend, 'down');
+    assert.equal(sources(provenance)['scenes[0].visuals.components[0].trend'], 'literal');
+});
+
+test('bindings that do not resolve are errors', () => {
+    const { errors } = resolveSceneBindings(
+        scene([{ type: 'data_card', title: 'x', bind: 'loanOverview.nope' }, { type: 'data_card', title: 'y', bind: 'constructor' }]),
+        analysis, ['scenes', 0]);
+    assert.deepEqual(errors.map(error => error.message), [
+        'scenes[0].visuals.components[0].bind "loanOverview.nope" does not resolve in the analysis',
+        'scenes[0].visuals.components[1].bind "constructor" does not resolve in the analysis'
+    ]);
+
+    const { errors: withoutAnalysis } = resolveSceneBindings(scene([], '{{loanOverview.amount}}'), undefined, ['scenes', 0]);
+    assert.match(withoutAnalysis[0].message, /needs an analysis in the request/);
+});
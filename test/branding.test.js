@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+
+// Profiles are read from a scratch copy so a broken one can sit next to loanie
+const brandingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'branding-test-'));
+fs.copyFileSync(path.join(__dirname, '..', 'branding', 'loanie.json'), path.join(brandingDir, 'loanie.json'));
+fs.writeFileSync(path.join(brandingDir, 'broken.json'), '{ "wordmark": ');
+process.env.BRANDING_DIR = brandingDir;
+
+const { resolveBranding } = require('../server/branding');
+
+test.after(() => fs.rmSync(brandingDir, { recursive: true, force: true }));
+
+const paths = issues => issues.map(issue => issue.path);
+
+test('no branding is requested without a profile or inline fields', () => {
+    assert.deepEqual(resolveBranding({}), { branding: null, errors: [], warnings: [] });
+});
+
+test('inline fields override the stored profile', () => {
+    const { branding, errors } = resolveBranding({ branding_id: 'loanie', branding: { wordmark: 'ACME', primaryColor: '#0f766e' } });
+    assert.deepEqual(errors, []);
+    assert.deepEqual(branding, { logo: { asset: '/images/logo.png' }, wordmark: 'ACME', primaryColor: '#0f766e' });
+});
+
+test('an unknown profile id is an error', () => {
+    const { branding, errors } = resolveBranding({ branding_id: '../secrets' });
+    assert.equal(branding, null);
+    assert.deepEqual(paths(errors), ['branding_id']);
+});
+
+test('a stored profile that cannot be parsed is a branding_id error', () => {
+    const { branding, errors } = resolveBranding({ branding_id: 'broken' });
+    assert.equal(branding, null);
+    assert.deepEqual(paths(errors), ['branding_id']);
+    assert.match(errors[0].message, /could not be read/);
+});
+
+test('logo urls must be absolute http(s) URLs', () => {
+    assert.deepEqual(resolveBranding({ branding: { logo: { url: 'https://cdn.example.com/acme.png' } } }).errors, []);
+    for (const url of ['javascript:alert(1)', '/images/logo.png', 'file:///etc/passwd']) {
+        const { branding, errors } = resolveBranding({ branding: { logo: { url } } });
+        assert.equal(branding, null);
+        assert.deepEqual(paths(errors), ['branding.logo.url']);
+    }
+});
+
+test('brand colours must be #rgb or #rrggbb', () => {
+    const { branding, errors } = resolveBranding({ branding: { primaryColor: '#abc', accentColor: 'rgb(0, 0, 0)' } });
+    assert.equal(branding, null);
+    assert.deepEqual(paths(errors), ['branding.accentColor']);
+    assert.match(errors[0].message, /must be a hex colour/);
+});
+
+test('local fonts need a file', () => {
+    const { errors } = resolveBranding({ branding: { font: { family: 'Inter', source: 'local' } } });
+    assert.deepEqual(paths(errors), ['branding.font.file']);
+});
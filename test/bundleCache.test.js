@@ -0,0 +1,99 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Stands in for @remotion/bundler: each build writes an empty bundle directory
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundle-cache-'));
+let builds = 0;
+require.cache[require.resolve('@remotion/bundler')] = {
+    exports: {
+        bundle: async () => {
+            const outDir = path.join(dir, `bundle-${++builds}`);
+            fs.mkdirSync(outDir);
+            return outDir;
+        }
+    }
+};
+
+const { createBundleCache } = require('../server/bundleCache');
+const { requireAdmin } = require('../server/adminAuth');
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function sources() {
+    const sourceDir = fs.mkdtempSync(path.join(dir, 'src-'));
+    fs.writeFileSync(path.join(sourceDir, 'index.tsx'), 'one');
+    return sourceDir;
+}
+
+test('a template edit changes the source hash and the next get builds it', async () => {
+    const sourceDir = sources();
+    const cache = createBundleCache({ entryPoint: 'index.tsx', sourceDir });
+    const first = cache.sourceHash();
+    const firstUrl = await cache.get();
+    assert.equal(cache.sourceHash(), first);
+    assert.equal(await cache.get(), firstUrl);
+
+    // A different length, so the size changes even where mtimes are coarse
+    fs.writeFileSync(path.join(sourceDir, 'index.tsx'), 'three');
+    assert.notEqual(cache.sourceHash(), first);
+    assert.notEqual(await cache.get(), firstUrl);
+    assert.equal(cache.status().hash, cache.sourceHash());
+
+    fs.writeFileSync(path.join(sourceDir, 'Scene.tsx'), 'scene');
+    assert.notEqual(cache.status().hash, cache.sourceHash());
+});
+
+test('concurrent callers share one build', async () => {
+    const cache = createBundleCache({ entryPoint: 'index.tsx', sourceDir: sources() });
+    const before = builds;
+    const [a, b] = await Promise.all([cache.get(), cache.get()]);
+    assert.equal(a, b);
+    assert.equal(builds, before + 1);
+});
+
+test('a superseded bundle is deleted once no render holds it', async () => {
+    const cache = createBundleCache({ entryPoint: 'index.tsx', sourceDir: sources() });
+    const held = await cache.acquire();
+    const unheld = await cache.rebuild();
+    assert.ok(fs.existsSync(held));
+
+    const current = await cache.rebuild();
+    assert.equal(fs.existsSync(unheld), false);
+    assert.ok(fs.existsSync(held));
+
+    cache.release(held);
+    assert.equal(fs.existsSync(held), false);
+    assert.ok(fs.existsSync(current));
+});
+
+function call(middleware, authorization) {
+    const res = {
+        statusCode: 200,
+        status(code) { this.statusCode = code; return this; },
+        set() { return this; },
+        json(body) { this.body = body; return this; }
+    };
+    let passed = false;
+    middleware({ get: () => authorization }, res, () => { passed = true; });
+    return passed ? 'next' : res.statusCode;
+}
+
+test('admin endpoints need the bearer token, and are off without one', () => {
+    const saved = process.env.ADMIN_TOKEN;
+    try {
+        delete process.env.ADMIN_TOKEN;
+        assert.equal(call(requireAdmin, 'Bearer anything'), 403);
+
+        process.env.ADMIN_TOKEN = 'secret-token';
+        assert.equal(call(requireAdmin, undefined), 401);
+        assert.equal(call(requireAdmin, 'Bearer secret'), 401);
+        assert.equal(call(requireAdmin, 'secret-token'), 401);
+        assert.equal(call(requireAdmin, 'Bearer secret-token'), 'next');
+    } finally {
+        if (saved === undefined) delete process.env.ADMIN_TOKEN;
+        else process.env.ADMIN_TOKEN = saved;
+    }
+});
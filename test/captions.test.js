@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { alignNarration } = require('../server/captions');
+const { validateManifest } = require('../server/manifestValidator');
+const { synthesize } = require('../server/tts');
+
+function withoutWhisper(fn) {
+    const saved = process.env.WHISPER_CPP_PATH;
+    delete process.env.WHISPER_CPP_PATH;
+    return Promise.resolve(fn()).finally(() => {
+        if (saved !== undefined) process.env.WHISPER_CPP_PATH = saved;
+    });
+}
+
+test('uses the word timings a provider supplies', async () => {
+    const audio = await synthesize('Revenue grew twelve percent', { provider: 'tone', voice: '440', speed: 1 });
+    const captions = await alignNarration('/nonexistent.wav', audio);
+    assert.equal(captions, audio.words);
+    assert.deepEqual(captions.map(caption => caption.text), ['Revenue', ' grew', ' twelve', ' percent']);
+});
+
+test('has no captions without provider timings or whisper.cpp', () => withoutWhisper(async () => {
+    assert.equal(await alignNarration('/nonexistent.mp3', { data: Buffer.alloc(0) }), null);
+    assert.equal(await alignNarration('/nonexistent.mp3', { data: Buffer.alloc(0), words: [] }), null);
+}));
+
+test('caption timings and caption style are validated with the manifest', () => {
+    const manifest = {
+        meta: { loan_id: 'l', version: '1', theme: 'institutional-dark', resolution: '16:9', fps: 30, captions: { position: 'side', maxLines: 0 } },
+        scenes: [{
+            id: 'intro',
+            start: 0,
+            duration: 2,
+            narration: { text: 'Hello there', captions: [{ text: 'Hello', startMs: 0, endMs: 400 }, { text: ' there', startMs: -5 }] },
+            visuals: { layout: 'centered', components: [] }
+        }]
+    };
+    const { errors } = validateManifest(manifest, { mode: 'strict' });
+    assert.deepEqual(errors.map(error => error.path), [
+        'meta.captions.position',
+        'meta.captions.maxLines',
+        'scenes[0].narration.captions[1].startMs',
+        'scenes[0].narration.captions[1].endMs'
+    ]);
+});
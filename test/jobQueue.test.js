@@ -0,0 +1,143 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createJobQueue, JobCancelledError, QueueFullError } = require('../server/jobQueue');
+
+// A job body that waits until the test releases it
+function deferred() {
+    let resolve;
+    let reject;
+    const promise = new Promise((res, rej) => { resolve = res; reject = rej; });
+    return { promise, resolve, reject };
+}
+
+test('runs jobs in order, at most `concurrency` at a time', async () => {
+    const gates = {};
+    const started = [];
+    const queue = createJobQueue({
+        concurrency: 1,
+        run: job => {
+            started.push(job.id);
+            gates[job.id] = deferred();
+            return gates[job.id].promise;
+        }
+    });
+
+    const first = queue.enqueue('a', {});
+    const second = queue.enqueue('b', {});
+    assert.equal(first.state, 'processing');
+    assert.equal(second.state, 'queued');
+    assert.equal(queue.position(second), 1);
+    assert.deepEqual(queue.stats(), { active: 1, queued: 1, concurrency: 1, maxQueued: 20 });
+
+    gates.a.resolve({ ok: 'a' });
+    await first.done;
+    assert.equal(first.state, 'completed');
+    assert.deepEqual(first.result, { ok: 'a' });
+    assert.deepEqual(started, ['a', 'b']);
+
+    gates.b.resolve({});
+    await second.done;
+});
+
+test('rejects jobs once the waiting list is full', () => {
+    const queue = createJobQueue({ concurrency: 1, maxQueued: 1, run: () => new Promise(() => { }) });
+    queue.enqueue('running', {});
+    queue.enqueue('waiting', {});
+    assert.throws(() => queue.enqueue('overflow', {}), QueueFullError);
+    assert.equal(queue.get('overflow'), null);
+});
+
+test('a cancelled queued job never runs', async () => {
+    const gate = deferred();
+    const ran = [];
+    const queue = createJobQueue({ concurrency: 1, run: job => { ran.push(job.id); return gate.promise; } });
+    queue.enqueue('a', {});
+    const waiting = queue.enqueue('b', {});
+
+    queue.cancel('b');
+    await waiting.done;
+    assert.equal(waiting.state, 'cancelled');
+
+    gate.resolve({});
+    await queue.get('a').done;
+    assert.deepEqual(ran, ['a']);
+});
+
+test('cancelling a running job aborts its signal', async () => {
+    const queue = createJobQueue({
+        run: job => new Promise((resolve, reject) => {
+            job.signal.addEventListener('abort', () => reject(new JobCancelledError(job.id)));
+        })
+    });
+    const job = queue.enqueue('a', {});
+    queue.cancel('a');
+    await job.done;
+    assert.equal(job.state, 'cancelled');
+    assert.equal(job.progress_label, 'Cancelled');
+});
+
+test('a failing job records its error', async () => {
+    const queue = createJobQueue({ run: async () => { throw new Error('ffmpeg exited with code 1'); } });
+    const job = queue.enqueue('a', {});
+    await job.done;
+    assert.equal(job.state, 'failed');
+    assert.equal(job.error, 'ffmpeg exited with code 1');
+    assert.equal(queue.toJSON(job).error, 'ffmpeg exited with code 1');
+});
+
+test('invalid limits are rejected rather than stalling the queue', () => {
+    for (const concurrency of [NaN, 0, 1.5]) {
+        assert.throws(() => createJobQueue({ concurrency, run: async () => ({}) }), /concurrency must be a positive integer/);
+    }
+    assert.throws(() => createJobQueue({ maxQueued: NaN, run: async () => ({}) }), /maxQueued/);
+});
+
+test('job events announce stage changes and end with the outcome', async () => {
+    const queue = createJobQueue({
+        run: async job => {
+            job.setProgress(40, 'Rendering', 'render');
+            job.setProgress(60, 'Rendering');
+            return { url: 'https://example.com/v.mp4' };
+        }
+    });
+    const job = queue.enqueue('a', {});
+    const received = [];
+    job.subscribe(event => received.push(event.type));
+    await job.done;
+
+    assert.deepEqual(job.events.map(event => event.type), [
+        'stage', 'progress', 'stage', 'progress', 'progress', 'stage', 'progress', 'completed'
+    ]);
+    // The job started on enqueue; a late subscriber only sees what came after
+    assert.deepEqual(received, ['stage', 'progress', 'completed']);
+    assert.deepEqual(job.events.at(-1).data, { result: { url: 'https://example.com/v.mp4' } });
+});
+
+test('eventsSince replays what a reconnecting client missed, or null once it is gone', async () => {
+    const queue = createJobQueue({
+        run: async job => {
+            for (let i = 1; i <= 250; i++) job.emit('tts', { scene: i });
+            return {};
+        }
+    });
+    const job = queue.enqueue('a', {});
+    await job.done;
+    const lastId = job.events.at(-1).id;
+
+    assert.equal(job.events.length, 200);
+    assert.deepEqual(job.eventsSince(lastId), []);
+    assert.deepEqual(job.eventsSince(lastId - 2).map(event => event.id), [lastId - 1, lastId]);
+    assert.equal(job.eventsSince(1), null);
+});
+
+test('an earlier retention timer does not drop a job restored under the same id', async () => {
+    const queue = createJobQueue({ retentionMs: 20, run: async () => ({}) });
+    await queue.enqueue('a', {}).done;
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const restored = queue.restore('a', { videoUrl: 'https://example.com/a.mp4' });
+
+    await new Promise(resolve => setTimeout(resolve, 15));
+    assert.equal(queue.get('a'), restored);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(queue.get('a'), null);
+});
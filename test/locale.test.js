@@ -0,0 +1,72 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseFigure, formatValue } = require('../server/locale');
+const { hasLocaleVoice, resolveTtsSettings } = require('../server/tts');
+const { validateManifest } = require('../server/manifestValidator');
+
+// Intl separates French thousands with narrow no-break spaces
+const plain = text => text.replace(/[\u00a0\u202f]/g, ' ');
+
+test('analysis figures are parsed with their currency, scale and unit', () => {
+    assert.deepEqual(parseFigure('$25.5M'), { value: 25500000, currency: 'USD' });
+    assert.deepEqual(parseFigure('EUR 1,200'), { value: 1200, currency: 'EUR' });
+    assert.deepEqual(parseFigure('18.2%'), { value: 18.2, percent: true });
+    assert.deepEqual(parseFigure('3.2x'), { value: 3.2, multiple: true });
+    assert.equal(parseFigure('about ten'), null);
+});
+
+test('figures are formatted for the locale', () => {
+    assert.equal(plain(formatValue('$25500000', 'number', undefined, 'fr-FR').text), '25 500 000');
+    assert.equal(plain(formatValue('$25.5M', 'compact', undefined, 'fr-FR').text), '25,5 M $US');
+    assert.equal(plain(formatValue('18.2%', 'percent', undefined, 'fr-FR').text), '18,2 %');
+    assert.equal(formatValue('2025-03-31', 'date', 'short', 'fr-FR').text, '31/03/2025');
+});
+
+test('a currency option applies to bare numbers and never converts a figure', () => {
+    assert.equal(plain(formatValue('$25500000', 'currency', undefined, 'fr-FR').text), '25 500 000 $US');
+    assert.equal(plain(formatValue('25500000', 'currency', 'EUR', 'fr-FR').text), '25 500 000 €');
+    assert.equal(plain(formatValue('$25500000', 'currency', 'usd', 'fr-FR').text), '25 500 000 $US');
+    assert.deepEqual(formatValue('$25500000', 'currency', 'EUR', 'fr-FR'), {
+        error: '"$25500000" is in USD, not EUR; amounts are not converted'
+    });
+});
+
+test('values that do not fit the format are errors', () => {
+    assert.match(formatValue('n/a', 'number', undefined, 'en-US').error, /is not a number/);
+    assert.match(formatValue('2025-03-31', 'date', 'tiny', 'en-US').error, /date style must be one of/);
+    assert.match(formatValue('1', 'roman', undefined, 'en-US').error, /unknown format "roman"/);
+});
+
+test('a currency mismatch in a binding rejects the manifest', () => {
+    const { errors } = validateManifest({
+        meta: { loan_id: 'l', version: '1', theme: 'institutional-dark', resolution: '16:9', fps: 30, locale: 'fr-FR' },
+        scenes: [{
+            id: 'intro',
+            start: 0,
+            duration: 2,
+            narration: { text: 'Montant : {{loanOverview.amount | currency:EUR}}.' },
+            visuals: { layout: 'centered', components: [] }
+        }]
+    }, { mode: 'strict', analysis: { loanOverview: { amount: '$25.5M' } } });
+    assert.deepEqual(errors.map(error => error.path), ['scenes[0].narration.text']);
+    assert.match(errors[0].message, /amounts are not converted/);
+});
+
+test('meta.locale must be a valid tag; languages without strings are a warning', () => {
+    const withLocale = locale => validateManifest({
+        meta: { loan_id: 'l', version: '1', theme: 'institutional-dark', resolution: '16:9', fps: 30, locale },
+        scenes: [{ id: 'a', start: 0, duration: 2, narration: { text: '' }, visuals: { layout: 'centered', components: [] } }]
+    }, { mode: 'strict' });
+
+    assert.deepEqual(withLocale('es-MX').warnings, []);
+    assert.match(withLocale('de-DE').warnings[0].message, /has no template strings for "de"; labels will be in English/);
+    assert.deepEqual(withLocale('english').errors.map(error => error.path), ['meta.locale']);
+});
+
+test('the locale picks a narration voice when the provider has one', () => {
+    assert.equal(hasLocaleVoice('deepgram', 'es-MX'), true);
+    assert.equal(hasLocaleVoice('deepgram', 'ar'), false);
+    assert.equal(hasLocaleVoice('tone', 'ar'), true);
+    assert.equal(resolveTtsSettings({ locale: 'es-MX', tts: { provider: 'espeak' } }, {}).voice, 'es-419');
+    assert.equal(resolveTtsSettings({ locale: 'fr-CA', tts: { provider: 'deepgram' } }, {}).voice, 'aura-2-hector-fr');
+});
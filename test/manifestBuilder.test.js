@@ -0,0 +1,83 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { buildManifestFromAnalysis } = require('../server/manifestBuilder');
+const { validateManifest } = require('../server/manifestValidator');
+const analysis = require('./fixtures/analysis.json');
+const sparseAnalysis = require('./fixtures/analysis-sparse.json');
+
+const components = (manifest, sceneId) => manifest.scenes.find(scene => scene.id === sceneId)?.visuals.components;
+
+test('builds the same manifest for the same analysis', () => {
+    assert.deepEqual(
+        buildManifestFromAnalysis(analysis, { loanId: 'loan-1' }),
+        buildManifestFromAnalysis(structuredClone(analysis), { loanId: 'loan-1' })
+    );
+});
+
+test('returns null without an analysis', () => {
+    assert.equal(buildManifestFromAnalysis(null), null);
+    assert.equal(buildManifestFromAnalysis('analysis'), null);
+});
+
+test('a full analysis produces a manifest that passes strict validation', () => {
+    const manifest = buildManifestFromAnalysis(analysis, { loanId: 'loan-1' });
+    const { errors } = validateManifest(manifest, { mode: 'strict' });
+
+    assert.deepEqual(errors, []);
+    assert.equal(manifest.meta.loan_id, 'loan-1');
+    assert.deepEqual(manifest.scenes.map(scene => scene.id), [
+        'overview', 'borrower_snapshot', 'financial_health', 'key_ratios', 'profit_trend',
+        'risk_factors', 'covenants', 'esg', 'recommendation', 'confidence'
+    ]);
+});
+
+test('scenes are laid end to end and long enough for their narration', () => {
+    const { scenes } = buildManifestFromAnalysis(analysis);
+    scenes.forEach((scene, i) => {
+        assert.equal(scene.start, i === 0 ? 0 : scenes[i - 1].start + scenes[i - 1].duration);
+        const words = scene.narration.text.split(/\s+/).length;
+        assert.ok(scene.duration >= words / 2.5, `${scene.id} is too short for its narration`);
+    });
+});
+
+test('risks are ordered by severity', () => {
+    const manifest = buildManifestFromAnalysis(analysis);
+    const [table] = components(manifest, 'risk_factors').filter(component => component.type === 'risk_table');
+    assert.deepEqual(table.risks.map(risk => risk.severity), ['high', 'medium', 'low']);
+    assert.match(manifest.scenes.find(scene => scene.id === 'risk_factors').narration.text, /most significant is Customer concentration/);
+});
+
+test('a sparse analysis still produces a manifest that validates', () => {
+    const manifest = buildManifestFromAnalysis(sparseAnalysis, { loanId: 'loan-2' });
+
+    for (const mode of ['strict', 'lenient']) {
+        const { errors } = validateManifest(manifest, { mode });
+        assert.deepEqual(errors, [], `${mode} validation failed`);
+    }
+    for (const scene of manifest.scenes) {
+        assert.doesNotMatch(scene.narration.text, /undefined|null|NaN/, `${scene.id} narration`);
+    }
+});
+
+test('missing analysis fields are defaulted or left out', () => {
+    const manifest = buildManifestFromAnalysis(sparseAnalysis);
+
+    const [table] = components(manifest, 'risk_factors').filter(component => component.type === 'risk_table');
+    assert.deepEqual(table.risks, [
+        { factor: 'Unnamed risk', severity: 'high', mitigant: '' },
+        { factor: 'Thin trading history', severity: 'unrated', mitigant: '' }
+    ]);
+    // An empty mitigant is not narrated
+    assert.doesNotMatch(manifest.scenes.find(scene => scene.id === 'risk_factors').narration.text, /mitigated by/);
+
+    const [indicator] = components(manifest, 'confidence');
+    assert.equal(indicator.status, 'COMPLETE');
+    assert.equal(indicator.confidence, 'UNKNOWN');
+
+    // No decision, so no recommendation scene
+    assert.equal(components(manifest, 'recommendation'), undefined);
+
+    // Only points with a value are charted
+    const [chart] = components(manifest, 'profit_trend');
+    assert.deepEqual(chart.data, [{ year: '2023', value: 1.4 }]);
+});
@@ -0,0 +1,166 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { validateManifest } = require('../server/manifestValidator');
+
+const META = { loan_id: 'loan-1', version: '1.0', theme: 'institutional-dark', resolution: '16:9', fps: 30 };
+
+function manifestWith(components, sceneFields = {}) {
+    return {
+        meta: META,
+        scenes: [{
+            id: 'intro',
+            start: 0,
+            duration: 5,
+            narration: { text: 'Hello.' },
+            visuals: { layout: 'centered', components },
+            ...sceneFields
+        }]
+    };
+}
+
+const paths = issues => issues.map(issue => issue.path);
+
+test('a valid manifest passes strict validation unchanged', () => {
+    const input = manifestWith([{ type: 'title', text: 'Acme' }, { type: 'data_card', title: 'Revenue', value: '$120M' }]);
+    const { manifest, errors, warnings } = validateManifest(input, { mode: 'strict' });
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(warnings, []);
+    assert.deepEqual(manifest, input);
+});
+
+test('errors name the path, with a JSON pointer', () => {
+    const { manifest, errors } = validateManifest(manifestWith([{ type: 'data_card', title: 'Revenue', value: 120 }]), { mode: 'strict' });
+
+    assert.equal(manifest, null);
+    assert.deepEqual(errors, [{
+        path: 'scenes[0].visuals.components[0].value',
+        pointer: '/scenes/0/visuals/components/0/value',
+        message: 'scenes[0].visuals.components[0].value must be a string'
+    }]);
+});
+
+test('missing required fields and unknown component types are errors', () => {
+    const { errors } = validateManifest(manifestWith([{ type: 'metric_card', label: 'Revenue' }, { type: 'sparkline' }]), { mode: 'strict' });
+
+    assert.deepEqual(paths(errors), [
+        'scenes[0].visuals.components[0].value',
+        'scenes[0].visuals.components[0].trend',
+        'scenes[0].visuals.components[1].type'
+    ]);
+    assert.match(errors[2].message, /"sparkline" is not a known component type/);
+});
+
+test('a manifest needs meta and at least one scene', () => {
+    assert.deepEqual(paths(validateManifest({ scenes: [] }, { mode: 'strict' }).errors), ['meta', 'scenes']);
+    assert.deepEqual(paths(validateManifest('manifest').errors), ['manifest']);
+});
+
+test('lenient mode coerces scalars and applies aliases with warnings', () => {
+    const input = {
+        scenes: [{
+            start_time: '2',
+            narration: 'Revenue grew.',
+            components: [{ type: 'data_card', title: 'Revenue', value: 120 }]
+        }]
+    };
+    const { manifest, errors, warnings } = validateManifest(input, { mode: 'lenient' });
+
+    assert.deepEqual(errors, []);
+    const [scene] = manifest.scenes;
+    assert.equal(scene.id, 'scene_0');
+    assert.equal(scene.start, 2);
+    assert.equal(scene.duration, 10);
+    assert.equal(scene.narration.text, 'Revenue grew.');
+    assert.equal(scene.visuals.components[0].value, '120');
+    assert.equal(manifest.meta.theme, 'institutional-dark');
+    assert.ok(paths(warnings).includes('scenes[0].start_time'));
+    assert.ok(paths(warnings).includes('scenes[0].visuals.components[0].value'));
+});
+
+test('lenient mode still rejects values it cannot coerce', () => {
+    const chart = { type: 'bar_chart', title: 'Profit', data: [{ year: '2023', value: 'a lot' }] };
+    const { errors } = validateManifest(manifestWith([chart]), { mode: 'lenient' });
+    assert.deepEqual(paths(errors), ['scenes[0].visuals.components[0].data[0].value']);
+});
+
+test('unknown properties are warnings', () => {
+    const { errors, warnings } = validateManifest({ ...manifestWith([]), extra: true }, { mode: 'strict' });
+    assert.deepEqual(errors, []);
+    assert.deepEqual(paths(warnings), ['extra']);
+});
+
+test('recommendation rationale lists are joined for the renderer', () => {
+    const { manifest } = validateManifest(manifestWith([
+        { type: 'recommendation', decision: 'approve', rationale: ['Strong cash flow', 'Low leverage'] }
+    ]), { mode: 'strict' });
+    assert.equal(manifest.scenes[0].visuals.components[0].rationale, 'Strong cash flow. Low leverage');
+});
+
+test('meta.theme must name a registered theme; lenient mode falls back to the default', () => {
+    const input = { ...manifestWith([]), meta: { ...META, theme: 'neon' } };
+
+    const strict = validateManifest(input, { mode: 'strict' });
+    assert.match(strict.errors[0].message, /^meta\.theme must be one of: institutional-dark, institutional-light, high-contrast$/);
+
+    const lenient = validateManifest(input, { mode: 'lenient' });
+    assert.equal(lenient.manifest.meta.theme, 'institutional-dark');
+    assert.deepEqual(paths(lenient.warnings), ['meta.theme']);
+});
+
+test('meta.resolution takes a preset or even WIDTHxHEIGHT dimensions', () => {
+    const resolutionErrors = resolution => paths(validateManifest({ ...manifestWith([]), meta: { ...META, resolution } }, { mode: 'strict' }).errors);
+
+    for (const resolution of ['16:9', '9:16', '1:1', '4k', '1280x720']) {
+        assert.deepEqual(resolutionErrors(resolution), [], resolution);
+    }
+    for (const resolution of ['1281x720', '720p', '0x0']) {
+        assert.deepEqual(resolutionErrors(resolution), ['meta.resolution'], resolution);
+    }
+
+    const lenient = validateManifest({ ...manifestWith([]), meta: { ...META, resolution: '720p' } }, { mode: 'lenient' });
+    assert.equal(lenient.manifest.meta.resolution, '1920x1080');
+});
+
+test('layouts the components cannot fill are switched to centered with a warning', () => {
+    const chart = { type: 'bar_chart', title: 'Profit', data: [{ year: '2023', value: 1 }] };
+    const card = { type: 'data_card', title: 'Revenue', value: '$120M' };
+    const layoutOf = (layout, components) => {
+        const { manifest, errors, warnings } = validateManifest(
+            manifestWith(components, { visuals: { layout, components } }),
+            { mode: 'strict' }
+        );
+        assert.deepEqual(errors, []);
+        return { layout: manifest.scenes[0].visuals.layout, warnings: warnings.map(warning => warning.message) };
+    };
+
+    assert.deepEqual(layoutOf('split', [card, chart]), { layout: 'split', warnings: [] });
+    assert.deepEqual(layoutOf('split', [{ type: 'title', text: 'Acme' }, chart]), {
+        layout: 'centered',
+        warnings: ['scenes[0].visuals.layout "split" needs both text and chart components; rendered as "centered"']
+    });
+    assert.deepEqual(layoutOf('title-over-full-bleed-chart', [card]).layout, 'centered');
+    assert.deepEqual(layoutOf('grid-2x2', [card]), { layout: 'grid-2x2', warnings: [] });
+});
+
+test('transitions are checked in meta and on each scene', () => {
+    const input = manifestWith([], { transition: { type: 'zoom', duration: -1 } });
+    input.meta = { ...META, transition: { type: 'slide', direction: 'sideways' } };
+    const { errors } = validateManifest(input, { mode: 'strict' });
+    assert.deepEqual(paths(errors), ['meta.transition.direction', 'scenes[0].transition.type', 'scenes[0].transition.duration']);
+});
+
+test('chart series need one value per label and table rows one value per column', () => {
+    const line = { type: 'line_chart', title: 'Revenue', labels: ['2022', '2023'], series: [{ name: 'Revenue', values: [1, 2, 3] }] };
+    const table = {
+        type: 'financial_table',
+        columns: ['2022', '2023'],
+        rows: [{ label: 'EBITDA', values: [1, '2'] }, { label: 'Capex', values: [1] }],
+        highlights: [{ row: 0, column: 1 }, { row: 5, column: 0 }]
+    };
+    const { errors, warnings } = validateManifest(manifestWith([line, table]), { mode: 'strict' });
+
+    assert.deepEqual(paths(errors), ['scenes[0].visuals.components[0].series[0].values', 'scenes[0].visuals.components[1].rows[1].values']);
+    assert.match(errors[0].message, /has 3 values but there are 2 labels/);
+    assert.deepEqual(paths(warnings), ['scenes[0].visuals.components[1].highlights[1]']);
+});
@@ -0,0 +1,27 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { resolveOutputs, planOutputs, outputSize, renderOptions } = require('../server/outputProfiles');
+
+test('outputs default to web and accept a name or a list', () => {
+    assert.deepEqual(resolveOutputs(undefined), { outputs: ['web'] });
+    assert.deepEqual(resolveOutputs('webm'), { outputs: ['webm'] });
+    assert.deepEqual(resolveOutputs(['web', 'audio-only', 'web']), { outputs: ['web', 'audio-only'] });
+});
+
+test('unknown or empty outputs are rejected', () => {
+    assert.match(resolveOutputs(['web', 'dvd']).error, /^Unknown output profile "dvd"; expected one of: archive, web/);
+    assert.equal(resolveOutputs([]).error, 'outputs must name at least one profile');
+});
+
+test('the highest-quality video profile is rendered and the others transcoded from it', () => {
+    assert.deepEqual(planOutputs(['small', 'archive', 'web']), { master: 'archive', derived: ['web', 'small'], audio: false });
+    assert.deepEqual(planOutputs(['audio-only']), { master: null, derived: [], audio: true });
+});
+
+test('small keeps a 720 short side in either orientation and never upscales', () => {
+    assert.deepEqual(outputSize('small', { width: 1920, height: 1080 }), { width: 1280, height: 720, scale: 2 / 3 });
+    assert.deepEqual(outputSize('small', { width: 1080, height: 1920 }), { width: 720, height: 1280, scale: 2 / 3 });
+    assert.deepEqual(outputSize('small', { width: 640, height: 360 }), { width: 640, height: 360, scale: 1 });
+    assert.deepEqual(renderOptions('web', { width: 1920, height: 1080 }), { codec: 'h264', crf: 23 });
+    assert.equal(renderOptions('small', { width: 1920, height: 1080 }).scale, 2 / 3);
+});
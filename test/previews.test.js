@@ -0,0 +1,35 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { planPreviews } = require('../server/previews');
+
+function manifest(previews, components = [[], [{ type: 'recommendation', decision: 'approve' }], []]) {
+    return {
+        meta: { fps: 30, ...(previews && { previews }) },
+        scenes: components.map((list, i) => ({ id: `s${i}`, duration: 10, visuals: { components: list } }))
+    };
+}
+
+test('the poster is a settled frame of the recommendation scene, with a thumbnail per scene', () => {
+    const { plan, warnings } = planPreviews(manifest());
+    assert.deepEqual(warnings, []);
+    assert.deepEqual(plan.poster, { frame: 480, format: 'jpeg' });
+    assert.deepEqual(plan.thumbnails, [{ sceneId: 's0', frame: 180 }, { sceneId: 's1', frame: 480 }, { sceneId: 's2', frame: 780 }]);
+    assert.equal(plan.animated, null);
+});
+
+test('without a recommendation the poster comes from the last scene', () => {
+    const { plan } = planPreviews(manifest(undefined, [[], []]));
+    assert.equal(plan.poster.frame, 480);
+});
+
+test('a poster scene or frame that does not exist falls back with a warning', () => {
+    const { plan, warnings } = planPreviews(manifest({ poster: { scene: 'missing', frame: 5000 }, thumbnails: { enabled: false } }));
+    assert.equal(plan.poster.frame, 480);
+    assert.deepEqual(plan.thumbnails, []);
+    assert.deepEqual(warnings.map(warning => warning.path), ['meta.previews.poster.frame', 'meta.previews.poster.scene']);
+});
+
+test('the animated preview starts at the poster scene and is pulled back from the end', () => {
+    const { plan } = planPreviews(manifest({ poster: { scene: 's2' }, animated: { format: 'gif', duration: 20 } }));
+    assert.deepEqual(plan.animated, { format: 'gif', width: 480, frameRange: [300, 899] });
+});
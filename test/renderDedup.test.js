@@ -0,0 +1,44 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { canonicalJson, renderHash, scopedIdempotencyKey, aliasVideoId, createRenderIndex } = require('../server/renderDedup');
+
+const REQUEST = { manifest: { meta: { fps: 30 }, scenes: [] }, outputs: ['web', 'webm'], templateHash: 't1' };
+
+test('canonical JSON sorts keys and drops undefined properties', () => {
+    assert.equal(canonicalJson({ b: 1, a: [undefined, { d: 2, c: undefined }] }), '{"a":[null,{"d":2}],"b":1}');
+});
+
+test('the render hash ignores key and output order and missing versus null inputs', () => {
+    const hash = renderHash(REQUEST);
+    assert.equal(renderHash({ ...REQUEST, outputs: ['webm', 'web'], analysis: null, branding: undefined }), hash);
+    assert.notEqual(renderHash({ ...REQUEST, templateHash: 't2' }), hash);
+    assert.notEqual(renderHash({ ...REQUEST, analysis: {} }), hash);
+});
+
+test('idempotency keys are scoped to the tenant', () => {
+    assert.equal(scopedIdempotencyKey(undefined, 'acme'), null);
+    assert.notEqual(scopedIdempotencyKey('k1', 'acme'), scopedIdempotencyKey('k1', 'globex'));
+    assert.notEqual(scopedIdempotencyKey('k1', undefined), scopedIdempotencyKey('k1', 'acme'));
+    assert.equal(scopedIdempotencyKey('k1', 'acme'), scopedIdempotencyKey('k1', 'acme'));
+});
+
+test('alias ids are stable UUIDs per video and manifest', () => {
+    const id = aliasVideoId('video-1', 'manifest-2');
+    assert.match(id, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    assert.equal(aliasVideoId('video-1', 'manifest-2'), id);
+    assert.notEqual(aliasVideoId('video-1', 'manifest-3'), id);
+});
+
+test('the render index finds renders by hash and key until they expire', async () => {
+    const index = createRenderIndex({ ttlMs: 20 });
+    const key = scopedIdempotencyKey('k1', 'acme');
+    index.record('video-1', 'h1', key);
+
+    assert.equal(index.findByHash('h1'), 'video-1');
+    assert.deepEqual(index.findByKey(key), { videoId: 'video-1', hash: 'h1' });
+    assert.equal(index.findByKey(scopedIdempotencyKey('k1', 'globex')), null);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.equal(index.findByHash('h1'), null);
+    assert.equal(index.findByKey(key), null);
+});
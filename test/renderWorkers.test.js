@@ -0,0 +1,18 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+// Read when the module loads
+process.env.RENDER_MIN_CHUNK_FRAMES = '90';
+const { splitFrameRange } = require('../server/renderWorkers');
+
+test('a range is split into contiguous chunks that cover it exactly', () => {
+    assert.deepEqual(splitFrameRange([0, 299], 3), [[0, 99], [100, 199], [200, 299]]);
+    // The remainder goes to the first chunks
+    assert.deepEqual(splitFrameRange([10, 293], 3), [[10, 104], [105, 199], [200, 293]]);
+});
+
+test('chunks are never shorter than the minimum, except for a short range', () => {
+    assert.deepEqual(splitFrameRange([0, 199], 4), [[0, 99], [100, 199]]);
+    assert.deepEqual(splitFrameRange([0, 29], 4), [[0, 29]]);
+    assert.deepEqual(splitFrameRange([5, 5], 2), [[5, 5]]);
+});
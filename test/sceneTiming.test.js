@@ -0,0 +1,65 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { probeAudioDuration, fitSceneDurations, sceneFrames, totalFrames } = require('../server/sceneTiming');
+const { synthesize } = require('../server/tts');
+
+function manifest(timing, durations = [10, 10]) {
+    return {
+        meta: { fps: 30, ...(timing && { timing }) },
+        scenes: durations.map((duration, i) => ({ id: `s${i}`, start: 0, duration, narration: { text: 'x' } }))
+    };
+}
+
+test('reads WAV durations from the header', async () => {
+    const { data } = await synthesize('one two three four five', { provider: 'tone', voice: '440', speed: 1 });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scene-timing-'));
+    const file = path.join(dir, 'clip.wav');
+    fs.writeFileSync(file, data);
+    try {
+        assert.equal(await probeAudioDuration(file), 2);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
+test('pad adds the padding to the narration and re-chains start times', () => {
+    const input = manifest({ padding: 0.5 });
+    assert.deepEqual(fitSceneDurations(input, [3.2, 4]), []);
+    assert.deepEqual(input.scenes.map(({ start, duration }) => ({ start, duration })), [
+        { start: 0, duration: 3.7 },
+        { start: 3.7, duration: 4.5 }
+    ]);
+});
+
+test('fit rounds up to whole frames so the narration is never cut', () => {
+    const input = manifest({ policy: 'fit' });
+    fitSceneDurations(input, [2.01, null]);
+    assert.equal(input.scenes[0].duration, 61 / 30);
+    // No audio: the manifest duration is kept
+    assert.equal(input.scenes[1].duration, 10);
+});
+
+test('keep leaves durations alone and warns about cut-off narration and dead air', () => {
+    const input = manifest({ policy: 'keep' }, [3, 10]);
+    const warnings = fitSceneDurations(input, [4, 2]);
+    assert.deepEqual(input.scenes.map(scene => scene.duration), [3, 10]);
+    assert.deepEqual(warnings.map(warning => warning.path), ['scenes[0].duration', 'scenes[1].duration']);
+    assert.match(warnings[0].message, /narration will be cut off/);
+    assert.match(warnings[1].message, /8\.0s of silence/);
+});
+
+test('an audio URL that cannot be measured is reported', () => {
+    const input = manifest();
+    input.scenes[0].narration.audioUrl = 'https://example.com/clip.mp3';
+    const warnings = fitSceneDurations(input, [null, null]);
+    assert.deepEqual(warnings.map(warning => warning.path), ['scenes[0].narration.audioUrl']);
+});
+
+test('frame counts round each scene and never drop to zero', () => {
+    assert.equal(sceneFrames(0.001, 30), 1);
+    assert.equal(sceneFrames(1.51, 30), 45);
+    assert.equal(totalFrames([{ duration: 1 }, { duration: 2.5 }], 30), 105);
+});
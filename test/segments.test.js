@@ -0,0 +1,59 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { planSegments } = require('../server/segments');
+
+const OPTIONS = { analysis: null, branding: null, profile: 'web', templateHash: 't1' };
+
+function manifest(sceneChanges = {}, meta = {}) {
+    return {
+        meta: { fps: 30, theme: 'institutional-dark', ...meta },
+        scenes: ['a', 'b', 'c'].map(id => ({
+            id,
+            duration: 2,
+            narration: { text: id, audioUrl: `https://cdn.example.com/${id}.mp3` },
+            visuals: { layout: 'centered', components: [] },
+            ...sceneChanges[id]
+        }))
+    };
+}
+
+const keys = plan => plan.map(segment => segment.key);
+
+test('each scene is a segment covering its own frames', () => {
+    const plan = planSegments(manifest(), OPTIONS);
+    assert.deepEqual(plan.map(({ sceneId, frames, frameRange }) => ({ sceneId, frames, frameRange })), [
+        { sceneId: 'a', frames: 60, frameRange: [0, 59] },
+        { sceneId: 'b', frames: 60, frameRange: [60, 119] },
+        { sceneId: 'c', frames: 60, frameRange: [120, 179] }
+    ]);
+    assert.match(plan[0].path, new RegExp(`${plan[0].key}\\.mp4$`));
+});
+
+test('changing one scene changes only its key; narration URLs never do', () => {
+    const base = keys(planSegments(manifest(), OPTIONS));
+    const edited = keys(planSegments(manifest({ b: { duration: 3 } }), OPTIONS));
+    assert.deepEqual([edited[0] === base[0], edited[1] === base[1], edited[2] === base[2]], [true, false, true]);
+
+    const moved = manifest();
+    moved.scenes[0].narration.audioUrl = 'https://elsewhere.example.com/a.mp3';
+    assert.deepEqual(keys(planSegments(moved, OPTIONS)), base);
+});
+
+test('a transition ties a scene to the one before it', () => {
+    const meta = { transition: { type: 'crossfade' } };
+    const base = keys(planSegments(manifest({}, meta), OPTIONS));
+    const edited = keys(planSegments(manifest({ a: { duration: 3 } }, meta), OPTIONS));
+    assert.deepEqual([edited[0] === base[0], edited[1] === base[1], edited[2] === base[2]], [false, false, true]);
+});
+
+test('settings shared by every scene change every key', () => {
+    const base = keys(planSegments(manifest(), OPTIONS));
+    for (const changed of [
+        planSegments(manifest({}, { theme: 'high-contrast' }), OPTIONS),
+        planSegments(manifest(), { ...OPTIONS, templateHash: 't2' }),
+        planSegments(manifest(), { ...OPTIONS, profile: 'archive' }),
+        planSegments(manifest(), { ...OPTIONS, branding: { wordmark: 'ACME' } })
+    ]) {
+        keys(changed).forEach((key, i) => assert.notEqual(key, base[i]));
+    }
+});
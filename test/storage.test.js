@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Readable } = require('stream');
+
+// Both adapters read their locations when they load
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+process.env.LOCAL_STORAGE_DIR = path.join(dir, 'storage');
+process.env.STATUS_STORE_PATH = path.join(dir, 'videos.json');
+
+const { createArtifactStore } = require('../server/storage/local');
+const { createStatusStore } = require('../server/storage/jsonFile');
+const { createStores } = require('../server/storage');
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('the local store writes buffers and streams and returns their public URLs', async () => {
+    const store = createArtifactStore({ publicBaseUrl: 'http://localhost:3000' });
+    const url = await store.upload('videos', 'a b.mp4', Buffer.from('video'), { contentType: 'video/mp4' });
+    assert.equal(url, 'http://localhost:3000/storage/videos/a%20b.mp4');
+    await store.upload('videos', 'b.txt', Readable.from(['stream']), { contentType: 'text/plain' });
+    assert.equal(fs.readFileSync(path.join(dir, 'storage', 'videos', 'b.txt'), 'utf8'), 'stream');
+
+    await store.remove('videos', ['a b.mp4', 'missing.mp4']);
+    assert.equal(fs.existsSync(path.join(dir, 'storage', 'videos', 'a b.mp4')), false);
+});
+
+test('the local store refuses keys outside its bucket', async () => {
+    const store = createArtifactStore({ publicBaseUrl: '' });
+    await assert.rejects(store.upload('videos', '../videos.json', Buffer.alloc(0), {}), /Invalid storage path/);
+    await assert.rejects(store.upload('..', 'x', Buffer.alloc(0), {}), /Invalid storage path/);
+});
+
+test('json rows are merged, persisted and found by render hash once completed', async () => {
+    const store = createStatusStore();
+    await store.upsert({ id: 'v1', status: 'processing', storage_metadata: { render_hash: 'h1' } });
+    assert.equal(await store.findByRenderHash('h1'), null);
+
+    await store.update('v1', { status: 'completed' });
+    await store.update('unknown', { status: 'completed' });
+    assert.equal((await createStatusStore().findByRenderHash('h1')).id, 'v1');
+    assert.equal(await store.get('unknown'), null);
+    assert.deepEqual(Object.keys(JSON.parse(fs.readFileSync(process.env.STATUS_STORE_PATH, 'utf8'))), ['v1']);
+});
+
+test('stores are chosen by ARTIFACT_STORE and STATUS_STORE', () => {
+    const saved = { ARTIFACT_STORE: process.env.ARTIFACT_STORE, STATUS_STORE: process.env.STATUS_STORE };
+    try {
+        Object.assign(process.env, { ARTIFACT_STORE: 'local', STATUS_STORE: 'json' });
+        const { artifactStore, statusStore } = createStores({ publicBaseUrl: '' });
+        assert.equal(artifactStore.name, 'local');
+        assert.equal(statusStore.name, 'json');
+
+        process.env.ARTIFACT_STORE = 'ftp';
+        assert.throws(() => createStores({ publicBaseUrl: '' }), /Unknown artifact store "ftp"/);
+    } finally {
+        for (const [name, value] of Object.entries(saved)) {
+            if (value === undefined) delete process.env[name];
+            else process.env[name] = value;
+        }
+    }
+});
@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { buildSidecars } = require('../server/subtitles');
+
+const manifest = {
+    meta: { loan_id: 'loan-1' },
+    scenes: [
+        { id: 'intro', start: 0, duration: 4, narration: { text: 'Welcome. This is the Acme briefing.' } },
+        { id: 'silent', start: 4, duration: 2, narration: { text: '' } },
+        {
+            id: 'timed',
+            start: 6,
+            duration: 3,
+            narration: {
+                text: 'Revenue grew.',
+                captions: [
+                    { text: 'Revenue', startMs: 100, endMs: 600 },
+                    { text: ' grew.', startMs: 600, endMs: 5000 }
+                ]
+            }
+        }
+    ]
+};
+
+test('SRT cues are spread over the spoken part of a scene, in proportion to their length', () => {
+    const { srt } = buildSidecars(manifest, [2, null, null]);
+    assert.equal(srt.body, [
+        '1\n00:00:00,000 --> 00:00:00,471\nWelcome.\n',
+        '2\n00:00:00,471 --> 00:00:02,000\nThis is the Acme briefing.\n',
+        '3\n00:00:06,100 --> 00:00:09,000\nRevenue grew.\n'
+    ].join('\n'));
+});
+
+test('WebVTT uses a dot before the milliseconds', () => {
+    const { vtt } = buildSidecars(manifest, []);
+    assert.match(vtt.body, /^WEBVTT\n\n1\n00:00:00\.000 --> 00:00:00\.941\nWelcome\.\n/);
+    assert.equal(vtt.contentType, 'text/vtt; charset=utf-8');
+});
+
+test('word-timed cues never run into the next scene', () => {
+    const { transcript_json: json } = buildSidecars(manifest, []);
+    const timed = JSON.parse(json.body).scenes.find(scene => scene.id === 'timed');
+    assert.deepEqual(timed.cues, [{ start: 6.1, end: 9, text: 'Revenue grew.' }]);
+});
+
+test('transcripts skip scenes without narration', () => {
+    const sidecars = buildSidecars(manifest, []);
+    assert.equal(sidecars.transcript_txt.body, 'Welcome. This is the Acme briefing.\n\nRevenue grew.\n');
+    assert.deepEqual(JSON.parse(sidecars.transcript_json.body).scenes.map(scene => scene.id), ['intro', 'timed']);
+});
+
+test('long cues are split and wrapped onto two balanced lines', () => {
+    const text = 'The borrower has maintained consistent revenue growth across every region it operates in over five years';
+    const { srt } = buildSidecars({ meta: {}, scenes: [{ id: 'a', start: 0, duration: 10, narration: { text } }] }, []);
+    const cues = srt.body.trim().split('\n\n');
+    assert.equal(cues.length, 2);
+    for (const cue of cues) {
+        const lines = cue.split('\n').slice(2);
+        assert.ok(lines.length <= 2 && lines.every(line => line.length <= 42), cue);
+    }
+});
@@ -0,0 +1,71 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { checkTtsConfig, resolveTtsSettings, synthesize } = require('../server/tts');
+
+// Runs `fn` with the given environment variables set (undefined unsets them)
+function withEnv(vars, fn) {
+    const saved = Object.fromEntries(Object.keys(vars).map(name => [name, process.env[name]]));
+    const apply = values => Object.entries(values).forEach(([name, value]) => {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+    });
+    apply(vars);
+    try {
+        return fn();
+    } finally {
+        apply(saved);
+    }
+}
+
+test('defaults to Deepgram and refuses to start without its key', () => {
+    withEnv({ TTS_PROVIDER: undefined, DEEPGRAM_API_KEY: undefined }, () => {
+        assert.equal(resolveTtsSettings({}, {}).provider, 'deepgram');
+        assert.match(checkTtsConfig(), /DEEPGRAM_API_KEY is not set/);
+    });
+    withEnv({ TTS_PROVIDER: undefined, DEEPGRAM_API_KEY: 'key' }, () => {
+        assert.equal(checkTtsConfig(), null);
+    });
+});
+
+test('silent narration has to be chosen explicitly', () => {
+    withEnv({ TTS_PROVIDER: 'silent', DEEPGRAM_API_KEY: undefined }, () => {
+        assert.equal(checkTtsConfig(), null);
+        assert.deepEqual(resolveTtsSettings({}, {}), { provider: 'silent', voice: null, speed: 1 });
+    });
+    withEnv({ TTS_PROVIDER: 'polly' }, () => {
+        assert.match(checkTtsConfig(), /Unknown TTS_PROVIDER "polly"/);
+    });
+});
+
+test('scene settings override the manifest, which overrides the default', () => {
+    withEnv({ TTS_PROVIDER: 'tone' }, () => {
+        const meta = { tts: { provider: 'espeak', voice: 'en-gb', speed: 1.2 } };
+        assert.deepEqual(resolveTtsSettings(meta, {}), { provider: 'espeak', voice: 'en-gb', speed: 1.2 });
+        assert.deepEqual(
+            resolveTtsSettings(meta, { narration: { tts: { voice: 'en-us', speed: 0.9 } } }),
+            { provider: 'espeak', voice: 'en-us', speed: 0.9 }
+        );
+    });
+});
+
+test('a voice is only inherited by the provider it was chosen for', () => {
+    withEnv({ TTS_PROVIDER: 'tone' }, () => {
+        const meta = { tts: { provider: 'espeak', voice: 'en-gb' } };
+        assert.deepEqual(
+            resolveTtsSettings(meta, { narration: { tts: { provider: 'tone' } } }),
+            { provider: 'tone', voice: '440', speed: 1 }
+        );
+    });
+});
+
+test('an unknown provider in a manifest is an error', () => {
+    assert.throws(() => resolveTtsSettings({ tts: { provider: 'polly' } }, {}), /Unknown TTS provider "polly"/);
+});
+
+test('the tone provider returns a WAV sized to the text, with word timings', async () => {
+    const audio = await synthesize('one two three four five', { provider: 'tone', voice: '440', speed: 1 });
+    assert.equal(audio.contentType, 'audio/wav');
+    assert.equal(audio.data.toString('ascii', 0, 4), 'RIFF');
+    assert.equal(audio.words.length, 5);
+    assert.equal(audio.words[4].endMs, 2000);
+});
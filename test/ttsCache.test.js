@@ -0,0 +1,72 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Read when the modules load
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tts-cache-'));
+process.env.TTS_CACHE_DIR = path.join(dir, 'cache');
+process.env.LOCAL_STORAGE_DIR = path.join(dir, 'storage');
+process.env.TTS_CACHE_MAX_AGE_DAYS = '30';
+
+const { synthesizeCached, releaseNarration, publishNarration, pruneNarrationBucket } = require('../server/ttsCache');
+const { createArtifactStore } = require('../server/storage/local');
+
+const BUCKET = 'narration-audio';
+const TONE = { provider: 'tone', voice: '440', speed: 1 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function age(key, days) {
+    const when = new Date(Date.now() - days * DAY_MS);
+    fs.utimesSync(path.join(dir, 'storage', BUCKET, key), when, when);
+}
+
+test('clips are cached by normalised text and settings', async () => {
+    const first = await synthesizeCached('Revenue  grew.', TONE);
+    const second = await synthesizeCached(' Revenue grew. ', TONE);
+    const other = await synthesizeCached('Revenue grew.', { ...TONE, speed: 1.2 });
+    releaseNarration([first.key, second.key, other.key]);
+
+    assert.equal(first.hit, false);
+    assert.equal(second.hit, true);
+    assert.equal(second.key, first.key);
+    assert.notEqual(other.key, first.key);
+});
+
+test('a clip already in the bucket is not uploaded again', async () => {
+    const store = createArtifactStore({ publicBaseUrl: 'http://localhost:3000' });
+    const { audio, key } = await synthesizeCached('Published once.', TONE);
+    releaseNarration([key]);
+
+    const first = await publishNarration(store, BUCKET, key, audio);
+    age(`${key}.wav`, 1);
+    const second = await publishNarration(store, BUCKET, key, audio);
+
+    assert.deepEqual(first, { url: `http://localhost:3000/storage/${BUCKET}/${key}.wav`, uploaded: true });
+    assert.deepEqual(second, { url: first.url, uploaded: false });
+    const [stored] = (await store.list(BUCKET)).filter(object => object.key === `${key}.wav`);
+    assert.ok(Date.now() - stored.updatedAt.getTime() > DAY_MS / 2);
+});
+
+test('the bucket drops expired clips that no job holds, at most once an hour', async () => {
+    const store = createArtifactStore({ publicBaseUrl: '' });
+    const expired = await synthesizeCached('Expired clip.', TONE);
+    const held = await synthesizeCached('Held clip.', TONE);
+    const fresh = await synthesizeCached('Fresh clip.', TONE);
+    releaseNarration([expired.key, fresh.key]);
+    for (const clip of [expired, held, fresh]) await publishNarration(store, BUCKET, clip.key, clip.audio);
+    age(`${expired.key}.wav`, 31);
+    age(`${held.key}.wav`, 31);
+
+    assert.equal(await pruneNarrationBucket(store, BUCKET, { force: true }), 1);
+    assert.equal(await store.exists(BUCKET, `${expired.key}.wav`), false);
+    assert.equal(await store.exists(BUCKET, `${held.key}.wav`), true);
+    assert.equal(await store.exists(BUCKET, `${fresh.key}.wav`), true);
+
+    releaseNarration([held.key]);
+    assert.equal(await pruneNarrationBucket(store, BUCKET), 0);
+    assert.equal(await pruneNarrationBucket(store, BUCKET, { force: true }), 1);
+});
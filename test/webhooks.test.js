@@ -0,0 +1,142 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+
+// Read when the module loads
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'));
+process.env.WEBHOOKS_DIR = dir;
+process.env.WEBHOOK_SECRET = 'shared-secret';
+process.env.WEBHOOK_MAX_ATTEMPTS = '1';
+delete process.env.WEBHOOK_ALLOW_PRIVATE;
+
+const { resolveWebhookTargets, buildWebhookPayload, signPayload, notifyWebhooks } = require('../server/webhooks');
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('signatures are an HMAC of the timestamp and the raw body', () => {
+    const body = '{"event":"video.completed"}';
+    const expected = crypto.createHmac('sha256', 'key').update(`1700000000.${body}`).digest('hex');
+    assert.equal(signPayload(body, 'key', 1700000000), `t=1700000000,v1=${expected}`);
+});
+
+test('payloads describe the finished job', () => {
+    const payload = buildWebhookPayload({
+        id: 'v1',
+        state: 'failed',
+        error: 'ffmpeg exited',
+        result: null,
+        finishedAt: '2026-01-01T00:00:00.000Z',
+        payload: { manifest_id: 'm1', warnings: [] }
+    });
+    assert.equal(payload.event, 'video.failed');
+    assert.equal(payload.manifest_id, 'm1');
+    assert.equal(payload.video_url, null);
+    assert.deepEqual(payload.error, { message: 'ffmpeg exited' });
+});
+
+test('a reused render reports the alias id and manifest_id of the request it was reused for', async () => {
+    const bodies = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            bodies.push(JSON.parse(body));
+            res.writeHead(204);
+            res.end();
+        });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const job = { id: 'v1', state: 'completed', result: {}, finishedAt: null, payload: { manifest_id: 'm1' } };
+        const url = `http://127.0.0.1:${server.address().port}/hook`;
+        const [delivery] = await notifyWebhooks(job, [{ url, secret: 's', source: 'tenant' }], { videoId: 'v2', manifestId: 'm2' });
+        assert.equal(delivery.delivered, true);
+        assert.equal(bodies[0].video_id, 'v2');
+        assert.equal(bodies[0].manifest_id, 'm2');
+        assert.equal(buildWebhookPayload(job).video_id, 'v1');
+    } finally {
+        await new Promise(resolve => server.close(resolve));
+    }
+});
+
+test('tenant webhooks are read from their file, with their own secret', () => {
+    fs.writeFileSync(path.join(dir, 'acme.json'), JSON.stringify({ url: 'https://los.example.com/hook', secret: 'acme-secret' }));
+    assert.deepEqual(resolveWebhookTargets({ tenant_id: 'acme' }), {
+        targets: [{ url: 'https://los.example.com/hook', secret: 'acme-secret', source: 'tenant' }]
+    });
+    assert.deepEqual(resolveWebhookTargets({ tenant_id: 'nobody' }), { targets: [] });
+});
+
+test('a malformed tenant file is an error, not an exception', () => {
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{ "url": ');
+    const { targets, error } = resolveWebhookTargets({ tenant_id: 'broken' });
+    assert.equal(targets, undefined);
+    assert.match(error, /^Webhook for tenant "broken" could not be read/);
+});
+
+test('callback URLs may not point at loopback, link-local or private addresses', () => {
+    const blocked = [
+        'http://localhost:3000/hook',
+        'http://127.0.0.1/hook',
+        'http://169.254.169.254/latest/meta-data',
+        'http://10.0.0.5/hook',
+        'http://172.20.1.1/hook',
+        'http://192.168.1.10/hook',
+        'http://[::1]/hook',
+        'http://[fd12::1]/hook',
+        'http://[::ffff:10.0.0.1]/hook',
+        'http://2130706433/hook'
+    ];
+    for (const callback_url of blocked) {
+        assert.match(resolveWebhookTargets({ callback_url }).error ?? '', /must not point to a loopback, link-local or private address/, callback_url);
+    }
+    assert.equal(resolveWebhookTargets({ callback_url: 'https://hooks.example.com/video' }).targets.length, 1);
+    assert.equal(resolveWebhookTargets({ callback_url: 'http://172.32.0.1/hook' }).targets.length, 1);
+});
+
+test('WEBHOOK_ALLOW_PRIVATE lets local receivers through', () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE = 'true';
+    try {
+        assert.equal(resolveWebhookTargets({ callback_url: 'http://localhost:4000/hook' }).targets.length, 1);
+    } finally {
+        delete process.env.WEBHOOK_ALLOW_PRIVATE;
+    }
+});
+
+test('a callback whose name resolves to a private address is not called', async () => {
+    const job = { id: 'v1', state: 'completed', result: {}, finishedAt: null, payload: {} };
+    const [delivery] = await notifyWebhooks(job, [{ url: 'http://localhost:9/hook', secret: 's', source: 'request' }]);
+    assert.equal(delivery.delivered, false);
+    assert.equal(delivery.attempts.length, 1);
+    assert.match(delivery.attempts[0].error, /^localhost resolves to the private address/);
+});
+
+test('a redirect is not followed and counts as not delivered', async () => {
+    const hits = [];
+    const server = http.createServer((req, res) => {
+        hits.push(req.url);
+        if (req.url === '/hook') {
+            res.writeHead(302, { Location: '/internal' });
+        } else {
+            res.writeHead(204);
+        }
+        res.end();
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const job = { id: 'v1', state: 'completed', result: {}, finishedAt: null, payload: {} };
+        const url = `http://127.0.0.1:${server.address().port}/hook`;
+        const [delivery] = await notifyWebhooks(job, [{ url, secret: 's', source: 'tenant' }]);
+        assert.equal(delivery.delivered, false);
+        assert.equal(delivery.attempts.length, 1);
+        assert.equal(delivery.attempts[0].status, 302);
+        assert.equal(delivery.attempts[0].error, 'redirected to /internal');
+        assert.deepEqual(hits, ['/hook']);
+    } finally {
+        await new Promise(resolve => server.close(resolve));
+    }
+});